@@ -0,0 +1,28 @@
+-- migrations/002_create_message_relations.sql
+CREATE TABLE IF NOT EXISTS message_reactions (
+  messageId TEXT NOT NULL,
+  reaction TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  PRIMARY KEY (messageId, reaction, userId)
+);
+
+-- Attachment metadata as it was sent with the message
+CREATE TABLE IF NOT EXISTS message_attachments (
+  messageId TEXT NOT NULL,
+  attachmentId TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  filename TEXT,
+  size INTEGER,
+  contentType TEXT,
+  url TEXT,
+  PRIMARY KEY (messageId, attachmentId)
+);
+
+CREATE TABLE IF NOT EXISTS message_mentions (
+  messageId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  PRIMARY KEY (messageId, userId)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentions_user ON message_mentions(userId);
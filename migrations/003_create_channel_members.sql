@@ -0,0 +1,22 @@
+-- migrations/003_create_channel_members.sql
+CREATE TABLE IF NOT EXISTS channel_members (
+  channelId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member',
+  joinedAt TEXT NOT NULL,
+  mutedUntil TEXT,
+  PRIMARY KEY (channelId, userId)
+);
+
+CREATE INDEX IF NOT EXISTS idx_members_user ON channel_members(userId);
+
+-- expiresAt NULL means a permanent ban
+CREATE TABLE IF NOT EXISTS channel_bans (
+  channelId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  bannedBy TEXT NOT NULL,
+  reason TEXT,
+  createdAt TEXT NOT NULL,
+  expiresAt TEXT,
+  PRIMARY KEY (channelId, userId)
+);
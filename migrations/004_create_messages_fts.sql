@@ -0,0 +1,33 @@
+-- migrations/004_create_messages_fts.sql
+-- Full-text index over message content, backed by the messages table itself
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+  content,
+  content='messages',
+  content_rowid='rowid',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+-- Only live (non-deleted) messages are indexed
+CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages
+WHEN new.deleted = 0
+BEGIN
+  INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content, deleted ON messages
+BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, content)
+    SELECT 'delete', old.rowid, old.content WHERE old.deleted = 0;
+  INSERT INTO messages_fts(rowid, content)
+    SELECT new.rowid, new.content WHERE new.deleted = 0;
+END;
+
+CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages
+WHEN old.deleted = 0
+BEGIN
+  INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+
+-- Backfill existing messages
+INSERT INTO messages_fts(rowid, content)
+  SELECT rowid, content FROM messages WHERE deleted = 0;
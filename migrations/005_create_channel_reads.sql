@@ -0,0 +1,12 @@
+-- migrations/005_create_channel_reads.sql
+-- Each member's read position per channel; lastReadAt is the timestamp of the last read message
+CREATE TABLE IF NOT EXISTS channel_reads (
+  channelId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  lastReadMessageId TEXT NOT NULL,
+  lastReadAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL,
+  PRIMARY KEY (channelId, userId)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reads_user ON channel_reads(userId);
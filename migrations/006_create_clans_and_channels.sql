@@ -0,0 +1,33 @@
+-- migrations/006_create_clans_and_channels.sql
+CREATE TABLE IF NOT EXISTS clans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  ownerId TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS clan_members (
+  clanId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member',
+  joinedAt TEXT NOT NULL,
+  PRIMARY KEY (clanId, userId)
+);
+
+CREATE INDEX IF NOT EXISTS idx_clan_members_user ON clan_members(userId);
+
+-- type: text | announcement | private
+CREATE TABLE IF NOT EXISTS channels (
+  id TEXT PRIMARY KEY,
+  clanId TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'text',
+  topic TEXT,
+  archived INTEGER DEFAULT 0,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_channels_clan ON channels(clanId);
@@ -0,0 +1,15 @@
+-- migrations/007_create_invites.sql
+-- channelId NULL = clan invite; expiresAt / maxUses NULL = unlimited
+CREATE TABLE IF NOT EXISTS invites (
+  code TEXT PRIMARY KEY,
+  clanId TEXT NOT NULL,
+  channelId TEXT,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  expiresAt TEXT,
+  maxUses INTEGER,
+  uses INTEGER DEFAULT 0,
+  revoked INTEGER DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_invites_clan ON invites(clanId);
@@ -0,0 +1,11 @@
+-- migrations/008_create_conversations.sql
+-- Direct and group conversations. The id is derived from the participant set, and
+-- participants are stored in channel_members so reads, unread counts and search apply unchanged.
+-- type: dm | group
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  name TEXT,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
@@ -0,0 +1,11 @@
+-- migrations/009_create_channel_pins.sql
+CREATE TABLE IF NOT EXISTS channel_pins (
+  channelId TEXT NOT NULL,
+  messageId TEXT NOT NULL,
+  pinnedBy TEXT NOT NULL,
+  pinnedAt TEXT NOT NULL,
+  PRIMARY KEY (channelId, messageId)
+);
+
+-- Lowest channel role allowed to pin and unpin
+ALTER TABLE channels ADD COLUMN pinRole TEXT NOT NULL DEFAULT 'moderator';
@@ -0,0 +1,27 @@
+-- migrations/010_create_revisions_and_audit_log.sql
+-- The content a message had before each edit
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id TEXT PRIMARY KEY,
+  messageId TEXT NOT NULL,
+  channelId TEXT NOT NULL,
+  content TEXT NOT NULL,
+  editedBy TEXT NOT NULL,
+  editedAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_message ON message_revisions(messageId, editedAt);
+
+-- details is a JSON object with action-specific fields (new role, mute expiry, ...)
+CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  channelId TEXT NOT NULL,
+  action TEXT NOT NULL,
+  actorId TEXT NOT NULL,
+  targetUserId TEXT,
+  messageId TEXT,
+  reason TEXT,
+  details TEXT,
+  createdAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_channel ON audit_log(channelId, createdAt);
@@ -0,0 +1,18 @@
+-- migrations/011_add_retention.sql
+-- Per-channel retention; NULL keeps messages forever
+ALTER TABLE channels ADD COLUMN retentionDays INTEGER;
+ALTER TABLE channels ADD COLUMN retentionMaxMessages INTEGER;
+
+-- When a message was soft-deleted; soft-deleted rows are hard-deleted after a grace period
+ALTER TABLE messages ADD COLUMN deletedAt TEXT;
+CREATE INDEX IF NOT EXISTS idx_messages_deleted ON messages(deletedAt) WHERE deleted = 1;
+
+-- One row per purge run; report is a JSON breakdown per channel
+CREATE TABLE IF NOT EXISTS retention_runs (
+  id TEXT PRIMARY KEY,
+  startedAt TEXT NOT NULL,
+  finishedAt TEXT NOT NULL,
+  messagesPurged INTEGER NOT NULL,
+  attachmentsPurged INTEGER NOT NULL,
+  report TEXT
+);
@@ -0,0 +1,16 @@
+-- migrations/012_create_attachments.sql
+-- Every upload, keyed by the file id clients see. messageId is set once the file is sent in a message.
+CREATE TABLE IF NOT EXISTS attachments (
+  id TEXT PRIMARY KEY,
+  channelId TEXT NOT NULL,
+  uploaderId TEXT NOT NULL,
+  r2Key TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  contentType TEXT,
+  createdAt TEXT NOT NULL,
+  messageId TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_message ON attachments(messageId);
+CREATE INDEX IF NOT EXISTS idx_attachments_unlinked ON attachments(createdAt) WHERE messageId IS NULL;
@@ -0,0 +1,16 @@
+-- migrations/013_add_attachment_media.sql
+-- Media metadata read at upload time. thumbnails is a JSON array of {size, width, height, url}.
+ALTER TABLE attachments ADD COLUMN width INTEGER;
+ALTER TABLE attachments ADD COLUMN height INTEGER;
+ALTER TABLE attachments ADD COLUMN durationSeconds REAL;
+ALTER TABLE attachments ADD COLUMN blurhash TEXT;
+ALTER TABLE attachments ADD COLUMN dominantColor TEXT;
+ALTER TABLE attachments ADD COLUMN thumbnails TEXT;
+
+-- Copied onto the message with the rest of the attachment, so history doesn't need a join
+ALTER TABLE message_attachments ADD COLUMN width INTEGER;
+ALTER TABLE message_attachments ADD COLUMN height INTEGER;
+ALTER TABLE message_attachments ADD COLUMN durationSeconds REAL;
+ALTER TABLE message_attachments ADD COLUMN blurhash TEXT;
+ALTER TABLE message_attachments ADD COLUMN dominantColor TEXT;
+ALTER TABLE message_attachments ADD COLUMN thumbnails TEXT;
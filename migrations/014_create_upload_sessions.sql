@@ -0,0 +1,31 @@
+-- migrations/014_create_upload_sessions.sql
+-- Resumable uploads built on R2 multipart uploads. Rows are removed once the upload completes or is aborted.
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id TEXT PRIMARY KEY,
+  channelId TEXT NOT NULL,
+  uploaderId TEXT NOT NULL,
+  r2Key TEXT NOT NULL,
+  r2UploadId TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  contentType TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  partSize INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active', -- active | completing
+  createdAt TEXT NOT NULL,
+  expiresAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_uploader ON upload_sessions(uploaderId);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires ON upload_sessions(expiresAt);
+
+-- Parts that landed in R2; etag is needed to complete the upload
+CREATE TABLE IF NOT EXISTS upload_parts (
+  uploadId TEXT NOT NULL,
+  partNumber INTEGER NOT NULL,
+  etag TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  PRIMARY KEY (uploadId, partNumber)
+);
+
+-- Per-user upload quotas sum recent uploads
+CREATE INDEX IF NOT EXISTS idx_attachments_uploader ON attachments(uploaderId, createdAt);
@@ -0,0 +1,30 @@
+-- migrations/015_create_webhooks_and_bots.sql
+-- Incoming webhooks post into one channel; their secret token is only stored hashed
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  channelId TEXT NOT NULL,
+  name TEXT NOT NULL,
+  avatarUrl TEXT,
+  tokenHash TEXT NOT NULL,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  lastUsedAt TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_channel ON webhooks(channelId);
+
+-- Bot accounts belong to a clan and are clan members under their own id; API keys are stored hashed
+CREATE TABLE IF NOT EXISTS bots (
+  id TEXT PRIMARY KEY,
+  clanId TEXT NOT NULL,
+  name TEXT NOT NULL,
+  avatarUrl TEXT,
+  keyHash TEXT NOT NULL,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bots_clan ON bots(clanId);
+
+-- NULL for people; 'bot' or 'webhook' for integrations, whose display name and avatar are in username/profileImage
+ALTER TABLE messages ADD COLUMN authorType TEXT;
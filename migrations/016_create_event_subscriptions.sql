@@ -0,0 +1,39 @@
+-- migrations/016_create_event_subscriptions.sql
+-- Outgoing webhooks: a URL that receives a clan's or a channel's events. channelId NULL covers every channel of the clan.
+-- secret signs each delivery (HMAC-SHA256), so it is kept as is; events is a JSON array of event types.
+CREATE TABLE IF NOT EXISTS event_subscriptions (
+  id TEXT PRIMARY KEY,
+  clanId TEXT NOT NULL,
+  channelId TEXT,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT NOT NULL,
+  active INTEGER NOT NULL DEFAULT 1,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_subscriptions_clan ON event_subscriptions(clanId);
+CREATE INDEX IF NOT EXISTS idx_event_subscriptions_channel ON event_subscriptions(channelId);
+
+-- One row per event sent to a subscription; status is pending | succeeded | failed
+CREATE TABLE IF NOT EXISTS event_deliveries (
+  id TEXT PRIMARY KEY,
+  subscriptionId TEXT NOT NULL,
+  channelId TEXT NOT NULL,
+  eventType TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  nextAttemptAt TEXT,
+  lastAttemptAt TEXT,
+  responseStatus INTEGER,
+  responseBody TEXT,
+  lastError TEXT,
+  createdAt TEXT NOT NULL,
+  -- Set on manual redeliveries: the delivery this one repeats
+  redeliveryOf TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_subscription ON event_deliveries(subscriptionId, createdAt);
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_due ON event_deliveries(channelId, nextAttemptAt) WHERE status = 'pending';
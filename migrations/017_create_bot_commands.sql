@@ -0,0 +1,16 @@
+-- migrations/017_create_bot_commands.sql
+-- Slash commands registered by bots. Invocations are POSTed to the bot's commandUrl, signed with its key hash.
+ALTER TABLE bots ADD COLUMN commandUrl TEXT;
+
+-- Command names are unique within a clan so /name always resolves to one bot
+CREATE TABLE IF NOT EXISTS bot_commands (
+  clanId TEXT NOT NULL,
+  name TEXT NOT NULL,
+  botId TEXT NOT NULL,
+  description TEXT NOT NULL,
+  usage TEXT,
+  createdAt TEXT NOT NULL,
+  PRIMARY KEY (clanId, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bot_commands_bot ON bot_commands(botId);
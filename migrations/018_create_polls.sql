@@ -0,0 +1,27 @@
+-- migrations/018_create_polls.sql
+-- A poll belongs to the message that asks it; options is a JSON array of { id, text }.
+-- closedAt is set when the poll is closed by hand or reaches closesAt; votes are refused from then on.
+CREATE TABLE IF NOT EXISTS polls (
+  messageId TEXT PRIMARY KEY,
+  channelId TEXT NOT NULL,
+  question TEXT NOT NULL,
+  options TEXT NOT NULL,
+  multipleChoice INTEGER NOT NULL DEFAULT 0,
+  anonymous INTEGER NOT NULL DEFAULT 0,
+  closesAt TEXT,
+  closedAt TEXT,
+  closedBy TEXT,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_polls_channel ON polls(channelId);
+
+-- One row per option a user picked; single-choice polls have at most one per user
+CREATE TABLE IF NOT EXISTS poll_votes (
+  messageId TEXT NOT NULL,
+  optionId TEXT NOT NULL,
+  userId TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  PRIMARY KEY (messageId, userId, optionId)
+);
@@ -0,0 +1,70 @@
+-- migrations/019_backfill_legacy_channels.sql
+-- Before clans, a channel was just a name: its room, messages and members were all keyed by it.
+-- Every such name without a channel row gets one with the same id, in an "Imported channels" clan,
+-- so its history, members and room stay reachable now that access goes through channel rows.
+CREATE TABLE IF NOT EXISTS legacy_channel_import (
+  id TEXT PRIMARY KEY,
+  createdBy TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
+
+INSERT OR IGNORE INTO legacy_channel_import (id, createdBy, createdAt)
+SELECT
+  used.channelId,
+  -- The first person to post, or failing that to join, stands in as the creator
+  COALESCE(
+    (SELECT m.userId FROM messages m WHERE m.channelId = used.channelId ORDER BY m.timestamp LIMIT 1),
+    (SELECT chm.userId FROM channel_members chm WHERE chm.channelId = used.channelId ORDER BY chm.joinedAt LIMIT 1)
+  ),
+  MIN(used.at)
+FROM (
+  SELECT channelId, timestamp AS at FROM messages
+  UNION ALL
+  SELECT channelId, joinedAt AS at FROM channel_members
+) used
+WHERE used.channelId NOT IN (SELECT id FROM channels)
+  AND used.channelId NOT IN (SELECT id FROM conversations)
+GROUP BY used.channelId;
+
+-- Owned by the earliest legacy channel owner, else by whoever created the oldest channel
+INSERT OR IGNORE INTO clans (id, name, ownerId, createdAt, updatedAt)
+SELECT
+  'legacy',
+  'Imported channels',
+  COALESCE(
+    (SELECT userId FROM channel_members
+     WHERE role = 'owner' AND channelId IN (SELECT id FROM legacy_channel_import)
+     ORDER BY joinedAt LIMIT 1),
+    (SELECT createdBy FROM legacy_channel_import ORDER BY createdAt LIMIT 1)
+  ),
+  (SELECT MIN(createdAt) FROM legacy_channel_import),
+  (SELECT MIN(createdAt) FROM legacy_channel_import)
+WHERE EXISTS (SELECT 1 FROM legacy_channel_import);
+
+INSERT OR IGNORE INTO channels (id, clanId, name, type, createdBy, createdAt, updatedAt)
+SELECT id, 'legacy', substr(id, 1, 100), 'text', createdBy, createdAt, createdAt
+FROM legacy_channel_import;
+
+-- Everyone who took part becomes a clan member, since public channels are open to clan members only.
+-- Existing channel roles are kept; channel owners and admins also administer the clan.
+INSERT OR IGNORE INTO clan_members (clanId, userId, role, joinedAt)
+SELECT id, ownerId, 'owner', createdAt FROM clans WHERE id = 'legacy';
+
+INSERT OR IGNORE INTO clan_members (clanId, userId, role, joinedAt)
+SELECT 'legacy', userId, 'admin', MIN(joinedAt)
+FROM channel_members
+WHERE role IN ('owner', 'admin') AND channelId IN (SELECT id FROM legacy_channel_import)
+GROUP BY userId;
+
+INSERT OR IGNORE INTO clan_members (clanId, userId, role, joinedAt)
+SELECT 'legacy', userId, 'member', MIN(at)
+FROM (
+  SELECT userId, timestamp AS at FROM messages
+  WHERE authorType IS NULL AND channelId IN (SELECT id FROM legacy_channel_import)
+  UNION ALL
+  SELECT userId, joinedAt AS at FROM channel_members
+  WHERE channelId IN (SELECT id FROM legacy_channel_import)
+)
+GROUP BY userId;
+
+DROP TABLE legacy_channel_import;
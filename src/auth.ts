@@ -0,0 +1,213 @@
+// src/auth.ts
+import { HttpError } from './http';
+
+export interface AuthEnv {
+  JWT_SECRET?: string;
+  JWT_PUBLIC_KEY?: string;
+  JWKS_URL?: string;
+  JWT_ISSUER?: string;
+  JWT_AUDIENCE?: string;
+}
+
+export interface AuthUser {
+  uid: string;
+  username: string;
+  profileImage: string;
+  claims: Record<string, unknown>;
+  // Set for bots authenticated with an API key; tokens never carry it
+  bot?: boolean;
+}
+
+export class AuthError extends HttpError {
+  constructor(message: string, status: 401 | 403 = 401) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+// JWKS entries name their key with kid so tokens can say which one signed them
+type Jwk = JsonWebKey & { kid?: string };
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+// JWKS responses are cached per isolate so we don't fetch keys on every request
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+let jwksCache: { url: string; keys: Jwk[]; fetchedAt: number } | null = null;
+
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Reads the bearer token from the Authorization header, falling back to the
+ * `token` query param (browsers can't set headers on WebSocket upgrades or <img> tags).
+ */
+export function getToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (header?.startsWith('Bearer ')) {
+    return header.slice(7).trim() || null;
+  }
+  return new URL(request.url).searchParams.get('token');
+}
+
+/**
+ * Verifies the request's token and returns the identity it carries.
+ * Throws AuthError (401) when the token is missing, malformed, expired or badly signed.
+ */
+export async function authenticate(request: Request, env: AuthEnv): Promise<AuthUser> {
+  const token = getToken(request);
+  if (!token) {
+    throw new AuthError('Missing token');
+  }
+
+  const claims = await verifyToken(token, env);
+  const uid = claims.sub ?? claims.uid ?? claims.userId;
+  if (typeof uid !== 'string' || !uid) {
+    throw new AuthError('Token has no subject');
+  }
+
+  return {
+    uid,
+    username: String(claims.username ?? claims.preferred_username ?? claims.name ?? 'User'),
+    profileImage: String(claims.profileImage ?? claims.picture ?? ''),
+    claims,
+  };
+}
+
+/**
+ * Throws AuthError (403) when the client also names a user id (legacy `userId`
+ * query param or `X-User-Id` header) that differs from the token subject.
+ */
+export function assertSameUser(request: Request, user: AuthUser): void {
+  const claimed = request.headers.get('X-User-Id') || new URL(request.url).searchParams.get('userId');
+  if (claimed && claimed !== user.uid) {
+    throw new AuthError('Token does not match requested user', 403);
+  }
+}
+
+async function verifyToken(token: string, env: AuthEnv): Promise<Record<string, unknown>> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  let header: JwtHeader;
+  let claims: Record<string, unknown>;
+  try {
+    header = JSON.parse(decodeBase64UrlString(encodedHeader));
+    claims = JSON.parse(decodeBase64UrlString(encodedPayload));
+  } catch {
+    throw new AuthError('Malformed token');
+  }
+
+  const data = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+  let valid: boolean;
+  try {
+    const signature = decodeBase64Url(encodedSignature);
+    if (header.alg === 'HS256') {
+      if (!env.JWT_SECRET) throw new AuthError('HS256 tokens are not accepted');
+      const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(env.JWT_SECRET),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      valid = await crypto.subtle.verify('HMAC', key, signature, data);
+    } else if (header.alg === 'RS256') {
+      const key = await getRsaKey(header.kid, env);
+      valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+    } else {
+      throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+    }
+  } catch (error) {
+    if (error instanceof AuthError) throw error;
+    // A signature that isn't base64url, or a configured key that won't import, can't verify anything
+    throw new AuthError('Invalid token signature');
+  }
+
+  if (!valid) {
+    throw new AuthError('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === 'number' && claims.exp < now - CLOCK_SKEW_SECONDS) {
+    throw new AuthError('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now + CLOCK_SKEW_SECONDS) {
+    throw new AuthError('Token not yet valid');
+  }
+  if (env.JWT_ISSUER && claims.iss !== env.JWT_ISSUER) {
+    throw new AuthError('Invalid token issuer');
+  }
+  if (env.JWT_AUDIENCE) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(env.JWT_AUDIENCE)) {
+      throw new AuthError('Invalid token audience');
+    }
+  }
+
+  return claims;
+}
+
+async function getRsaKey(kid: string | undefined, env: AuthEnv): Promise<CryptoKey> {
+  const algorithm = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+  if (env.JWT_PUBLIC_KEY) {
+    const pem = env.JWT_PUBLIC_KEY
+      .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+      .replace(/\s+/g, '');
+    return crypto.subtle.importKey('spki', decodeBase64(pem), algorithm, false, ['verify']);
+  }
+
+  if (env.JWKS_URL) {
+    let keys = await getJwks(env.JWKS_URL, false);
+    let jwk = keys.find(k => !kid || k.kid === kid);
+    if (!jwk && kid) {
+      // Key may have been rotated since we cached the set
+      keys = await getJwks(env.JWKS_URL, true);
+      jwk = keys.find(k => k.kid === kid);
+    }
+    if (!jwk) throw new AuthError('Unknown signing key');
+    return crypto.subtle.importKey('jwk', jwk, algorithm, false, ['verify']);
+  }
+
+  throw new AuthError('RS256 tokens are not accepted');
+}
+
+async function getJwks(url: string, refresh: boolean): Promise<Jwk[]> {
+  if (!refresh && jwksCache && jwksCache.url === url && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_TTL_MS) {
+    return jwksCache.keys;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    console.error('Failed to fetch JWKS:', response.status);
+    throw new AuthError('Unable to verify token');
+  }
+
+  const body = await response.json() as { keys?: Jwk[] };
+  jwksCache = { url, keys: body.keys || [], fetchedAt: Date.now() };
+  return jwksCache.keys;
+}
+
+function decodeBase64(input: string): Uint8Array {
+  const binary = atob(input);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeBase64Url(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  return decodeBase64(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+}
+
+function decodeBase64UrlString(input: string): string {
+  return new TextDecoder().decode(decodeBase64Url(input));
+}
@@ -0,0 +1,142 @@
+// src/commands.ts
+import { HttpError } from './http';
+import { signDelivery } from './eventDelivery';
+import { Bot, PollInput, SlashCommand } from './types';
+
+export const COMMAND_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/;
+const BOT_COMMAND_TIMEOUT_MS = 5000;
+const MAX_DICE = 100;
+const MAX_DIE_SIDES = 1000;
+
+// Built-in commands; bots can't register these names
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+  { name: 'me', description: 'Describe what you are doing', usage: '/me <action>' },
+  { name: 'shrug', description: 'Append ¯\\_(ツ)_/¯ to your message', usage: '/shrug [message]' },
+  { name: 'roll', description: 'Roll dice', usage: '/roll [NdM], e.g. /roll 2d6' },
+  { name: 'poll', description: 'Start a poll', usage: '/poll [--multi] [--anonymous] "Question" "Option 1" "Option 2" ...' },
+  { name: 'topic', description: 'Show or change the channel topic', usage: '/topic [new topic]' },
+  { name: 'kick', description: 'Remove someone from the channel', usage: '/kick @user [reason]', minRole: 'moderator' },
+  { name: 'mute', description: 'Stop someone posting for a while', usage: '/mute @user <duration, e.g. 10m> [reason]', minRole: 'moderator' },
+  { name: 'unmute', description: 'Let a muted member post again', usage: '/unmute @user', minRole: 'moderator' },
+  { name: 'ban', description: 'Ban someone from the channel', usage: '/ban @user [duration] [reason]', minRole: 'moderator' },
+  { name: 'unban', description: 'Lift a ban', usage: '/unban @user', minRole: 'moderator' },
+  { name: 'slowmode', description: 'Limit how often members can post', usage: '/slowmode <duration|off>', minRole: 'admin' },
+];
+
+// A command that can't run as given; the message goes back to the invoker
+export class CommandError extends HttpError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = 'CommandError';
+  }
+}
+
+export interface ParsedCommand {
+  name: string;
+  args: string;
+}
+
+// What a bot answers a command with
+export interface BotCommandResponse {
+  content?: string;
+  ephemeral?: boolean;
+}
+
+/**
+ * Splits `/name args` into its parts. Returns null for anything that isn't a command, including
+ * `//text`, which is sent as `/text`.
+ */
+export function parseCommand(content: string | undefined): ParsedCommand | null {
+  const match = content?.trim().match(/^\/([^\s\/]+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] || '').trim() };
+}
+
+/**
+ * Rolls dice written as NdM (N defaults to 1) and formats the result, e.g. `🎲 2d6: 3 + 5 = 8`.
+ */
+export function rollDice(spec: string): string {
+  const match = (spec || '1d6').toLowerCase().match(/^(\d*)d(\d+)$/);
+  const count = match ? parseInt(match[1] || '1') : NaN;
+  const sides = match ? parseInt(match[2]) : NaN;
+  if (!(count >= 1 && count <= MAX_DICE) || !(sides >= 2 && sides <= MAX_DIE_SIDES)) {
+    throw new CommandError(`Dice must look like 2d6, with at most ${MAX_DICE} dice of up to ${MAX_DIE_SIDES} sides`);
+  }
+
+  const rolls = Array.from({ length: count }, () => 1 + Math.floor(Math.random() * sides));
+  const total = rolls.reduce((sum, roll) => sum + roll, 0);
+  return count === 1 ? `🎲 ${count}d${sides}: ${total}` : `🎲 ${count}d${sides}: ${rolls.join(' + ')} = ${total}`;
+}
+
+/**
+ * Reads `/poll "Question" "A" "B"` (or `Question | A | B`), optionally led by --multi and --anonymous.
+ * The poll itself is validated like any other when it is sent.
+ */
+export function parsePollCommand(args: string): PollInput {
+  let rest = args;
+  const flags = new Set<string>();
+  for (let flag = rest.match(/^--(multi|anonymous)\b\s*/); flag; flag = rest.match(/^--(multi|anonymous)\b\s*/)) {
+    flags.add(flag[1]);
+    rest = rest.slice(flag[0].length);
+  }
+
+  const quoted = Array.from(rest.matchAll(/"([^"]+)"/g), m => m[1].trim());
+  const [question, ...options] = (quoted.length ? quoted : rest.split('|')).map(p => p.trim()).filter(Boolean);
+  if (!question || options.length < 2) {
+    throw new CommandError('A poll needs a question and at least 2 options');
+  }
+  return { question, options, multipleChoice: flags.has('multi'), anonymous: flags.has('anonymous') };
+}
+
+/**
+ * Seconds in a duration like 30s, 10m, 2h or 7d; a bare number is seconds. Null when it isn't one.
+ */
+export function parseDuration(text: string | undefined): number | null {
+  const match = text?.trim().toLowerCase().match(/^(\d+)([smhd]?)$/);
+  if (!match) return null;
+  const unit = { '': 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2]]!;
+  return parseInt(match[1]) * unit;
+}
+
+/**
+ * POSTs an invocation to the bot's command URL, signed like outgoing webhooks but keyed with the
+ * hex SHA-256 of the bot's API key, and returns what it answered.
+ */
+export async function sendBotCommand(bot: Bot, keyHash: string, invocation: unknown): Promise<BotCommandResponse> {
+  if (!bot.commandUrl) {
+    throw new CommandError(`${bot.name} isn't accepting commands`, 503);
+  }
+
+  const body = JSON.stringify(invocation);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  let response: Response;
+  try {
+    response = await fetch(bot.commandUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Chat-Timestamp': timestamp,
+        'X-Chat-Signature': `sha256=${await signDelivery(keyHash, timestamp, body)}`,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(BOT_COMMAND_TIMEOUT_MS),
+    });
+  } catch (error) {
+    console.error('Error sending bot command:', bot.id, error);
+    throw new CommandError(`${bot.name} didn't respond`, 504);
+  }
+
+  if (!response.ok) {
+    throw new CommandError(`${bot.name} couldn't run the command`, 502);
+  }
+  // An empty body means the bot has nothing to say, or will post on its own over the REST API
+  const text = await response.text();
+  if (!text.trim()) return {};
+  try {
+    const parsed = JSON.parse(text) as BotCommandResponse;
+    return { content: typeof parsed.content === 'string' ? parsed.content : undefined, ephemeral: parsed.ephemeral === true };
+  } catch {
+    throw new CommandError(`${bot.name} sent an invalid response`, 502);
+  }
+}
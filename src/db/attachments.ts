@@ -0,0 +1,170 @@
+// src/db/attachments.ts
+import { Attachment, AttachmentRecord, MediaMetadata } from '../types';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Media columns shared by `attachments` and `message_attachments`.
+ */
+export function rowToMediaMetadata(r: Row): MediaMetadata {
+  return {
+    width: r.width != null ? Number(r.width) : undefined,
+    height: r.height != null ? Number(r.height) : undefined,
+    durationSeconds: r.durationSeconds != null ? Number(r.durationSeconds) : undefined,
+    blurhash: r.blurhash ? String(r.blurhash) : undefined,
+    dominantColor: r.dominantColor ? String(r.dominantColor) : undefined,
+    thumbnails: r.thumbnails ? JSON.parse(String(r.thumbnails)) : undefined,
+  };
+}
+
+// Bind values for the media columns, in the order width, height, durationSeconds, blurhash, dominantColor, thumbnails
+export function mediaColumnValues(m: MediaMetadata): unknown[] {
+  return [
+    m.width ?? null,
+    m.height ?? null,
+    m.durationSeconds ?? null,
+    m.blurhash ?? null,
+    m.dominantColor ?? null,
+    m.thumbnails?.length ? JSON.stringify(m.thumbnails) : null,
+  ];
+}
+
+export function rowToAttachment(r: Row): AttachmentRecord {
+  return {
+    ...rowToMediaMetadata(r),
+    id: String(r.id),
+    channelId: String(r.channelId),
+    uploaderId: String(r.uploaderId),
+    r2Key: String(r.r2Key),
+    filename: String(r.filename),
+    size: Number(r.size),
+    contentType: r.contentType ? String(r.contentType) : undefined,
+    createdAt: String(r.createdAt),
+    messageId: r.messageId ? String(r.messageId) : undefined,
+  };
+}
+
+/**
+ * The client-facing shape of an upload.
+ */
+export function toAttachment(record: AttachmentRecord): Attachment {
+  return {
+    id: record.id,
+    filename: record.filename,
+    size: record.size,
+    contentType: record.contentType,
+    url: `/api/attachments/${record.id}`,
+    width: record.width,
+    height: record.height,
+    durationSeconds: record.durationSeconds,
+    blurhash: record.blurhash,
+    dominantColor: record.dominantColor,
+    thumbnails: record.thumbnails,
+  };
+}
+
+/**
+ * R2 key for an upload: attachments/<channelId>/<attachmentId>.<ext>. The extension comes from the
+ * client's filename, so only lowercase letters and digits are kept.
+ */
+export function attachmentKey(channelId: string, attachmentId: string, filename: string): string {
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  return `attachments/${channelId}/${attachmentId}${extension ? `.${extension}` : ''}`;
+}
+
+// Thumbnails sit next to the original, so the orphan sweep reads the same file id from their keys
+export function thumbnailKey(channelId: string, attachmentId: string, size: number): string {
+  return `attachments/${channelId}/${attachmentId}.thumb-${size}.webp`;
+}
+
+/**
+ * The upload an attachment or thumbnail key belongs to. The id is read from its fixed segment, since
+ * keys written before extensions were sanitised may carry further slashes in the filename part.
+ */
+export function attachmentIdFromKey(key: string): string {
+  return (key.split('/')[2] ?? '').split('.')[0];
+}
+
+/**
+ * Every R2 object that belongs to an upload: the file itself and its thumbnails.
+ */
+export function attachmentR2Keys(record: AttachmentRecord): string[] {
+  return [
+    record.r2Key,
+    ...(record.thumbnails || []).map(t => thumbnailKey(record.channelId, record.id, t.size)),
+  ];
+}
+
+export async function insertAttachment(db: D1Database, attachment: AttachmentRecord): Promise<void> {
+  await attachmentInsert(db, attachment).run();
+}
+
+/**
+ * Statement that records an upload; INSERT OR IGNORE, so recording the same file twice is harmless.
+ */
+export function attachmentInsert(db: D1Database, attachment: AttachmentRecord): D1PreparedStatement {
+  return db.prepare(
+    `INSERT OR IGNORE INTO attachments (id, channelId, uploaderId, r2Key, filename, size, contentType, createdAt, messageId,
+       width, height, durationSeconds, blurhash, dominantColor, thumbnails)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    attachment.id,
+    attachment.channelId,
+    attachment.uploaderId,
+    attachment.r2Key,
+    attachment.filename,
+    attachment.size,
+    attachment.contentType ?? null,
+    attachment.createdAt,
+    attachment.messageId ?? null,
+    ...mediaColumnValues(attachment)
+  );
+}
+
+export async function getAttachment(db: D1Database, attachmentId: string): Promise<AttachmentRecord | null> {
+  const row = await db.prepare(`SELECT * FROM attachments WHERE id = ?`).bind(attachmentId).first<Row>();
+  return row ? rowToAttachment(row) : null;
+}
+
+/**
+ * Where a file uploaded before the attachments table existed was sent, from the message that carries it.
+ */
+export async function findLegacyAttachmentChannel(db: D1Database, attachmentId: string): Promise<string | null> {
+  return db.prepare(
+    `SELECT m.channelId FROM message_attachments a JOIN messages m ON m.id = a.messageId
+     WHERE a.attachmentId = ? LIMIT 1`
+  ).bind(attachmentId).first<string>('channelId');
+}
+
+/**
+ * The given uploads, if every one of them was uploaded by userId to channelId and isn't part of a message yet.
+ * Returns null otherwise. Order follows attachmentIds.
+ */
+export async function findSendableAttachments(
+  db: D1Database,
+  attachmentIds: string[],
+  channelId: string,
+  userId: string
+): Promise<AttachmentRecord[] | null> {
+  if (attachmentIds.length === 0) return [];
+
+  const { results } = await db.prepare(
+    `SELECT * FROM attachments
+     WHERE id IN (${attachmentIds.map(() => '?').join(', ')})
+       AND channelId = ? AND uploaderId = ? AND messageId IS NULL`
+  ).bind(...attachmentIds, channelId, userId).all<Row>();
+
+  const byId = new Map(results.map(r => [String(r.id), rowToAttachment(r)]));
+  const found = attachmentIds.map(id => byId.get(id));
+  return found.every(Boolean) ? found as AttachmentRecord[] : null;
+}
+
+/**
+ * Statement that marks uploads as sent in a message; batch it with the message insert.
+ * The messageId IS NULL guard keeps a file from being claimed by two messages.
+ */
+export function linkAttachments(db: D1Database, messageId: string, attachmentIds: string[]): D1PreparedStatement {
+  return db.prepare(
+    `UPDATE attachments SET messageId = ? WHERE id IN (${attachmentIds.map(() => '?').join(', ')}) AND messageId IS NULL`
+  ).bind(messageId, ...attachmentIds);
+}
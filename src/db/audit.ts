@@ -0,0 +1,134 @@
+// src/db/audit.ts
+import { AuditAction, AuditEntry } from '../types';
+import { MAX_PAGE_SIZE } from './messages';
+
+type Row = Record<string, unknown>;
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'message_edited', 'message_deleted', 'message_pinned', 'message_unpinned',
+  'member_kicked', 'member_muted', 'member_unmuted', 'member_banned', 'member_unbanned',
+  'member_role_updated', 'member_removed', 'slow_mode_updated',
+  'webhook_created', 'webhook_deleted', 'bot_created', 'bot_deleted', 'bot_key_rotated',
+];
+
+export interface AuditFilters {
+  action?: AuditAction;
+  actorId?: string;
+  targetUserId?: string;
+  messageId?: string;
+  after?: string;
+  before?: string;
+  limit: number;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'createdAt'>;
+
+function rowToAuditEntry(r: Row): AuditEntry {
+  return {
+    id: String(r.id),
+    channelId: String(r.channelId),
+    action: String(r.action) as AuditAction,
+    actorId: String(r.actorId),
+    targetUserId: r.targetUserId ? String(r.targetUserId) : undefined,
+    messageId: r.messageId ? String(r.messageId) : undefined,
+    reason: r.reason ? String(r.reason) : undefined,
+    details: r.details ? JSON.parse(String(r.details)) : undefined,
+    createdAt: String(r.createdAt),
+  };
+}
+
+/**
+ * Statement that records an audit entry; batch it with the change it describes.
+ */
+export function auditInsert(db: D1Database, entry: NewAuditEntry): D1PreparedStatement {
+  return db.prepare(
+    `INSERT INTO audit_log (id, channelId, action, actorId, targetUserId, messageId, reason, details, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    crypto.randomUUID(),
+    entry.channelId,
+    entry.action,
+    entry.actorId,
+    entry.targetUserId ?? null,
+    entry.messageId ?? null,
+    entry.reason ?? null,
+    entry.details ? JSON.stringify(entry.details) : null,
+    new Date().toISOString()
+  );
+}
+
+/**
+ * Statements that record a clan-wide change, such as a bot being added, in the log of every channel of the clan.
+ */
+export async function clanAuditInserts(
+  db: D1Database,
+  clanId: string,
+  entry: Omit<NewAuditEntry, 'channelId'>
+): Promise<D1PreparedStatement[]> {
+  const { results } = await db.prepare(`SELECT id FROM channels WHERE clanId = ?`).bind(clanId).all<{ id: string }>();
+  return results.map(r => auditInsert(db, { ...entry, channelId: r.id }));
+}
+
+/**
+ * Parses audit log filters from query params. Returns null when `action` isn't a known action.
+ */
+export function parseAuditFilters(params: URLSearchParams): AuditFilters | null {
+  const action = params.get('action') || undefined;
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) return null;
+
+  return {
+    action: action as AuditAction | undefined,
+    actorId: params.get('actor') || undefined,
+    targetUserId: params.get('target') || undefined,
+    messageId: params.get('messageId') || undefined,
+    after: params.get('after') || undefined,
+    before: params.get('before') || undefined,
+    limit: Math.min(Math.max(parseInt(params.get('limit') || '50') || 50, 1), MAX_PAGE_SIZE),
+  };
+}
+
+/**
+ * A channel's audit entries, newest first. Page backwards by passing the last entry's createdAt as `before`.
+ */
+export async function listAuditLog(
+  db: D1Database,
+  channelId: string,
+  filters: AuditFilters
+): Promise<{ entries: AuditEntry[]; hasMore: boolean }> {
+  let query = `SELECT * FROM audit_log WHERE channelId = ?`;
+  const params: any[] = [channelId];
+
+  if (filters.action) {
+    query += ` AND action = ?`;
+    params.push(filters.action);
+  }
+  if (filters.actorId) {
+    query += ` AND actorId = ?`;
+    params.push(filters.actorId);
+  }
+  if (filters.targetUserId) {
+    query += ` AND targetUserId = ?`;
+    params.push(filters.targetUserId);
+  }
+  if (filters.messageId) {
+    query += ` AND messageId = ?`;
+    params.push(filters.messageId);
+  }
+  if (filters.after) {
+    query += ` AND createdAt > ?`;
+    params.push(filters.after);
+  }
+  if (filters.before) {
+    query += ` AND createdAt < ?`;
+    params.push(filters.before);
+  }
+
+  query += ` ORDER BY createdAt DESC LIMIT ?`;
+  params.push(filters.limit + 1);
+
+  const { results } = await db.prepare(query).bind(...params).all<Row>();
+  return {
+    entries: results.slice(0, filters.limit).map(rowToAuditEntry),
+    hasMore: results.length > filters.limit,
+  };
+}
@@ -0,0 +1,113 @@
+// src/db/clans.ts
+import { Clan, Channel, ChannelType, ChannelRole, ClanRole } from '../types';
+import { hasRole } from '../permissions';
+
+type Row = Record<string, unknown>;
+
+export const CHANNEL_TYPES: ChannelType[] = ['text', 'announcement', 'private'];
+export const MAX_TOPIC_LENGTH = 500;
+
+export interface ChannelAccess {
+  channel: Channel;
+  clanRole: ClanRole | null;
+  channelRole: ChannelRole | null;
+  canRead: boolean;
+}
+
+// Channel settings and membership can be managed by clan admins or the channel's own admins
+export function canManageChannel(access: ChannelAccess): boolean {
+  return hasRole(access.clanRole ?? undefined, 'admin') || hasRole(access.channelRole ?? undefined, 'admin');
+}
+
+export function rowToClan(r: Row): Clan {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    ownerId: String(r.ownerId),
+    createdAt: String(r.createdAt),
+    updatedAt: String(r.updatedAt),
+  };
+}
+
+export function rowToChannel(r: Row): Channel {
+  return {
+    id: String(r.id),
+    clanId: String(r.clanId),
+    name: String(r.name),
+    type: String(r.type) as ChannelType,
+    topic: r.topic ? String(r.topic) : undefined,
+    archived: !!r.archived,
+    pinRole: r.pinRole ? String(r.pinRole) as ChannelRole : 'moderator',
+    retentionDays: r.retentionDays ? Number(r.retentionDays) : undefined,
+    retentionMaxMessages: r.retentionMaxMessages ? Number(r.retentionMaxMessages) : undefined,
+    createdBy: String(r.createdBy),
+    createdAt: String(r.createdAt),
+    updatedAt: String(r.updatedAt),
+  };
+}
+
+export async function getClan(db: D1Database, clanId: string): Promise<Clan | null> {
+  const row = await db.prepare(`SELECT * FROM clans WHERE id = ?`).bind(clanId).first<Row>();
+  return row ? rowToClan(row) : null;
+}
+
+export async function getClanRole(db: D1Database, clanId: string, userId: string): Promise<ClanRole | null> {
+  const row = await db.prepare(
+    `SELECT role FROM clan_members WHERE clanId = ? AND userId = ?`
+  ).bind(clanId, userId).first<{ role: ClanRole }>();
+  return row?.role ?? null;
+}
+
+export async function listUserClans(db: D1Database, userId: string): Promise<Array<Clan & { role: ClanRole }>> {
+  const { results } = await db.prepare(
+    `SELECT c.*, cm.role FROM clans c JOIN clan_members cm ON cm.clanId = c.id
+     WHERE cm.userId = ? ORDER BY c.name`
+  ).bind(userId).all<Row>();
+  return results.map(r => ({ ...rowToClan(r), role: String(r.role) as ClanRole }));
+}
+
+export async function getChannel(db: D1Database, channelId: string): Promise<Channel | null> {
+  const row = await db.prepare(`SELECT * FROM channels WHERE id = ?`).bind(channelId).first<Row>();
+  return row ? rowToChannel(row) : null;
+}
+
+/**
+ * Channels of a clan the user can see: every public channel plus the private ones they belong to.
+ */
+export async function listClanChannels(db: D1Database, clanId: string, userId: string): Promise<Channel[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM channels WHERE clanId = ?
+       AND (type != 'private' OR id IN (SELECT channelId FROM channel_members WHERE userId = ?))
+     ORDER BY createdAt`
+  ).bind(clanId, userId).all<Row>();
+  return results.map(rowToChannel);
+}
+
+/**
+ * Resolves what a user may do in a channel. Returns null for unknown channels.
+ * Public channels are open to every clan member; private channels only to their members.
+ * Nobody reads a channel they are banned from.
+ */
+export async function getChannelAccess(db: D1Database, channelId: string, userId: string): Promise<ChannelAccess | null> {
+  const row = await db.prepare(
+    `SELECT c.*, cm.role AS clanRole, chm.role AS channelRole,
+       EXISTS (SELECT 1 FROM channel_bans b WHERE b.channelId = c.id AND b.userId = ? AND (b.expiresAt IS NULL OR b.expiresAt > ?)) AS banned
+     FROM channels c
+     LEFT JOIN clan_members cm ON cm.clanId = c.clanId AND cm.userId = ?
+     LEFT JOIN channel_members chm ON chm.channelId = c.id AND chm.userId = ?
+     WHERE c.id = ?`
+  ).bind(userId, new Date().toISOString(), userId, userId, channelId).first<Row>();
+
+  if (!row) return null;
+
+  const channel = rowToChannel(row);
+  const clanRole = row.clanRole ? String(row.clanRole) as ClanRole : null;
+  const channelRole = row.channelRole ? String(row.channelRole) as ChannelRole : null;
+
+  return {
+    channel,
+    clanRole,
+    channelRole,
+    canRead: !row.banned && (channel.type === 'private' ? !!channelRole : !!clanRole),
+  };
+}
@@ -0,0 +1,126 @@
+// src/db/conversations.ts
+import { Conversation, ConversationSummary, ConversationType } from '../types';
+import { getUnreadSummary } from './reads';
+
+type Row = Record<string, unknown>;
+
+// Conversation ids share the channel id space (ChatRoom names, channel_members), so they get a prefix
+export const CONVERSATION_ID_PREFIX = 'dm_';
+export const MAX_GROUP_SIZE = 10;
+const PREVIEW_LENGTH = 100;
+
+export function isConversationId(id: string): boolean {
+  return id.startsWith(CONVERSATION_ID_PREFIX);
+}
+
+/**
+ * The same set of participants always maps to the same conversation, and so the same ChatRoom.
+ */
+export async function conversationIdFor(participantIds: string[]): Promise<string> {
+  const key = [...new Set(participantIds)].sort().join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return `${CONVERSATION_ID_PREFIX}${hex.slice(0, 32)}`;
+}
+
+function rowToConversation(r: Row, participantIds: string[]): Conversation {
+  return {
+    id: String(r.id),
+    type: String(r.type) as ConversationType,
+    name: r.name ? String(r.name) : undefined,
+    participantIds,
+    createdBy: String(r.createdBy),
+    createdAt: String(r.createdAt),
+  };
+}
+
+export async function getConversation(db: D1Database, conversationId: string): Promise<Conversation | null> {
+  const [conversation, participants] = await db.batch<Row>([
+    db.prepare(`SELECT * FROM conversations WHERE id = ?`).bind(conversationId),
+    db.prepare(`SELECT userId FROM channel_members WHERE channelId = ? ORDER BY joinedAt`).bind(conversationId),
+  ]);
+
+  const row = conversation.results[0];
+  return row ? rowToConversation(row, participants.results.map(p => String(p.userId))) : null;
+}
+
+/**
+ * Creates the conversation for a participant set, or returns the existing one.
+ */
+export async function openConversation(
+  db: D1Database,
+  participantIds: string[],
+  createdBy: string,
+  name?: string
+): Promise<{ conversation: Conversation; created: boolean }> {
+  const ids = [...new Set(participantIds)];
+  const id = await conversationIdFor(ids);
+  const type: ConversationType = ids.length === 2 ? 'dm' : 'group';
+  const now = new Date().toISOString();
+
+  const [insert] = await db.batch([
+    db.prepare(
+      `INSERT OR IGNORE INTO conversations (id, type, name, createdBy, createdAt) VALUES (?, ?, ?, ?, ?)`
+    ).bind(id, type, type === 'group' ? name || null : null, createdBy, now),
+    // Group creators own the conversation; both sides of a DM are equals
+    ...ids.map(userId => db.prepare(
+      `INSERT OR IGNORE INTO channel_members (channelId, userId, role, joinedAt) VALUES (?, ?, ?, ?)`
+    ).bind(id, userId, type === 'group' && userId === createdBy ? 'owner' : 'member', now)),
+  ]);
+
+  return {
+    conversation: (await getConversation(db, id))!,
+    created: !!insert.meta.changes,
+  };
+}
+
+/**
+ * Every conversation the user takes part in, most recently active first,
+ * with a preview of the last message and the user's unread counts.
+ */
+export async function listUserConversations(db: D1Database, userId: string): Promise<ConversationSummary[]> {
+  const [conversations, participants] = await db.batch<Row>([
+    db.prepare(
+      `SELECT c.*, lm.id AS lastMessageId, lm.userId AS lastMessageUserId, lm.username AS lastMessageUsername,
+         lm.content AS lastMessageContent, lm.timestamp AS lastMessageAt
+       FROM conversations c
+       JOIN channel_members cm ON cm.channelId = c.id AND cm.userId = ?
+       LEFT JOIN messages lm ON lm.id = (
+         SELECT id FROM messages WHERE channelId = c.id AND deleted = 0 AND threadId IS NULL
+         ORDER BY timestamp DESC LIMIT 1
+       )
+       ORDER BY COALESCE(lm.timestamp, c.createdAt) DESC`
+    ).bind(userId),
+    db.prepare(
+      `SELECT p.channelId, p.userId FROM channel_members p
+       JOIN channel_members cm ON cm.channelId = p.channelId AND cm.userId = ?
+       JOIN conversations c ON c.id = p.channelId
+       ORDER BY p.joinedAt`
+    ).bind(userId),
+  ]);
+
+  const participantsById = new Map<string, string[]>();
+  for (const p of participants.results) {
+    const id = String(p.channelId);
+    participantsById.set(id, [...(participantsById.get(id) || []), String(p.userId)]);
+  }
+
+  const unread = new Map((await getUnreadSummary(db, userId)).map(s => [s.channelId, s]));
+
+  return conversations.results.map(r => {
+    const conversation = rowToConversation(r, participantsById.get(String(r.id)) || []);
+    const summary = unread.get(conversation.id);
+    return {
+      ...conversation,
+      lastMessage: r.lastMessageId ? {
+        id: String(r.lastMessageId),
+        userId: String(r.lastMessageUserId),
+        username: String(r.lastMessageUsername || 'User'),
+        content: String(r.lastMessageContent).slice(0, PREVIEW_LENGTH),
+        timestamp: String(r.lastMessageAt),
+      } : null,
+      unreadCount: summary?.unreadCount || 0,
+      mentionCount: summary?.mentionCount || 0,
+    };
+  });
+}
@@ -0,0 +1,239 @@
+// src/db/integrations.ts
+import { Bot, SlashCommand, Webhook } from '../types';
+
+type Row = Record<string, unknown>;
+
+export const WEBHOOK_ID_PREFIX = 'wh_';
+export const BOT_ID_PREFIX = 'bot_';
+export const MAX_WEBHOOKS_PER_CHANNEL = 15;
+export const MAX_BOTS_PER_CLAN = 25;
+export const MAX_COMMANDS_PER_BOT = 25;
+
+function rowToWebhook(r: Row): Webhook {
+  return {
+    id: String(r.id),
+    channelId: String(r.channelId),
+    name: String(r.name),
+    avatarUrl: r.avatarUrl ? String(r.avatarUrl) : undefined,
+    createdBy: String(r.createdBy),
+    createdAt: String(r.createdAt),
+    lastUsedAt: r.lastUsedAt ? String(r.lastUsedAt) : undefined,
+  };
+}
+
+function rowToBot(r: Row): Bot {
+  return {
+    id: String(r.id),
+    clanId: String(r.clanId),
+    name: String(r.name),
+    avatarUrl: r.avatarUrl ? String(r.avatarUrl) : undefined,
+    commandUrl: r.commandUrl ? String(r.commandUrl) : undefined,
+    createdBy: String(r.createdBy),
+    createdAt: String(r.createdAt),
+  };
+}
+
+function rowToCommand(r: Row): SlashCommand {
+  return {
+    name: String(r.name),
+    description: String(r.description),
+    usage: r.usage ? String(r.usage) : undefined,
+    botId: String(r.botId),
+  };
+}
+
+/**
+ * A random URL-safe secret for webhook tokens and bot API keys.
+ */
+export function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function isBotId(userId: string): boolean {
+  return userId.startsWith(BOT_ID_PREFIX);
+}
+
+// --- Webhooks ---
+
+/**
+ * Statement that records a webhook; batch it with its audit entry.
+ */
+export function webhookInsert(db: D1Database, webhook: Webhook, tokenHash: string): D1PreparedStatement {
+  return db.prepare(
+    `INSERT INTO webhooks (id, channelId, name, avatarUrl, tokenHash, createdBy, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    webhook.id,
+    webhook.channelId,
+    webhook.name,
+    webhook.avatarUrl ?? null,
+    tokenHash,
+    webhook.createdBy,
+    webhook.createdAt
+  );
+}
+
+export async function getWebhook(db: D1Database, webhookId: string): Promise<Webhook | null> {
+  const row = await db.prepare(`SELECT * FROM webhooks WHERE id = ?`).bind(webhookId).first<Row>();
+  return row ? rowToWebhook(row) : null;
+}
+
+/**
+ * The webhook, if the token is its current one.
+ */
+export async function verifyWebhookToken(db: D1Database, webhookId: string, token: string): Promise<Webhook | null> {
+  const row = await db.prepare(
+    `SELECT * FROM webhooks WHERE id = ? AND tokenHash = ?`
+  ).bind(webhookId, await hashSecret(token)).first<Row>();
+  return row ? rowToWebhook(row) : null;
+}
+
+export async function listChannelWebhooks(db: D1Database, channelId: string): Promise<Webhook[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM webhooks WHERE channelId = ? ORDER BY createdAt`
+  ).bind(channelId).all<Row>();
+  return results.map(rowToWebhook);
+}
+
+export async function countChannelWebhooks(db: D1Database, channelId: string): Promise<number> {
+  return (await db.prepare(`SELECT COUNT(*) as count FROM webhooks WHERE channelId = ?`).bind(channelId).first<number>('count')) || 0;
+}
+
+export async function touchWebhook(db: D1Database, webhookId: string): Promise<void> {
+  await db.prepare(`UPDATE webhooks SET lastUsedAt = ? WHERE id = ?`).bind(new Date().toISOString(), webhookId).run();
+}
+
+// --- Bots ---
+
+/**
+ * Statements that create a bot and make it a member of its clan, so public channels are open
+ * to it and channel admins can add it to private ones like anyone else.
+ */
+export function botInserts(db: D1Database, bot: Bot, keyHash: string): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `INSERT INTO bots (id, clanId, name, avatarUrl, keyHash, createdBy, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(bot.id, bot.clanId, bot.name, bot.avatarUrl ?? null, keyHash, bot.createdBy, bot.createdAt),
+    db.prepare(
+      `INSERT OR IGNORE INTO clan_members (clanId, userId, role, joinedAt) VALUES (?, ?, 'member', ?)`
+    ).bind(bot.clanId, bot.id, bot.createdAt),
+  ];
+}
+
+/**
+ * Statements that delete a bot along with its clan and channel memberships.
+ */
+export function botDeletes(db: D1Database, bot: Bot): D1PreparedStatement[] {
+  return [
+    db.prepare(`DELETE FROM bots WHERE id = ?`).bind(bot.id),
+    db.prepare(`DELETE FROM bot_commands WHERE botId = ?`).bind(bot.id),
+    db.prepare(`DELETE FROM clan_members WHERE clanId = ? AND userId = ?`).bind(bot.clanId, bot.id),
+    db.prepare(`DELETE FROM channel_members WHERE userId = ?`).bind(bot.id),
+  ];
+}
+
+export async function getBot(db: D1Database, botId: string): Promise<Bot | null> {
+  const row = await db.prepare(`SELECT * FROM bots WHERE id = ?`).bind(botId).first<Row>();
+  return row ? rowToBot(row) : null;
+}
+
+export async function listClanBots(db: D1Database, clanId: string): Promise<Bot[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM bots WHERE clanId = ? ORDER BY createdAt`
+  ).bind(clanId).all<Row>();
+  return results.map(rowToBot);
+}
+
+export async function countClanBots(db: D1Database, clanId: string): Promise<number> {
+  return (await db.prepare(`SELECT COUNT(*) as count FROM bots WHERE clanId = ?`).bind(clanId).first<number>('count')) || 0;
+}
+
+export function botKeyUpdate(db: D1Database, botId: string, keyHash: string): D1PreparedStatement {
+  return db.prepare(`UPDATE bots SET keyHash = ? WHERE id = ?`).bind(keyHash, botId);
+}
+
+/**
+ * The bot an API key belongs to. Keys look like `<botId>.<secret>`.
+ */
+export async function verifyBotKey(db: D1Database, apiKey: string): Promise<Bot | null> {
+  const separator = apiKey.indexOf('.');
+  if (separator <= 0) return null;
+
+  const row = await db.prepare(
+    `SELECT * FROM bots WHERE id = ? AND keyHash = ?`
+  ).bind(apiKey.slice(0, separator), await hashSecret(apiKey)).first<Row>();
+  return row ? rowToBot(row) : null;
+}
+
+// --- Bot commands ---
+
+/**
+ * Statements that replace a bot's slash commands and the URL they are sent to.
+ */
+export function botCommandStatements(
+  db: D1Database,
+  bot: Bot,
+  commandUrl: string | null,
+  commands: Array<Omit<SlashCommand, 'botId' | 'minRole'>>
+): D1PreparedStatement[] {
+  const now = new Date().toISOString();
+  return [
+    db.prepare(`UPDATE bots SET commandUrl = ? WHERE id = ?`).bind(commandUrl, bot.id),
+    db.prepare(`DELETE FROM bot_commands WHERE botId = ?`).bind(bot.id),
+    ...commands.map(c => db.prepare(
+      `INSERT INTO bot_commands (clanId, name, botId, description, usage, createdAt) VALUES (?, ?, ?, ?, ?, ?)`
+    ).bind(bot.clanId, c.name, bot.id, c.description, c.usage ?? null, now)),
+  ];
+}
+
+export async function listBotCommands(db: D1Database, botId: string): Promise<SlashCommand[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM bot_commands WHERE botId = ? ORDER BY name`
+  ).bind(botId).all<Row>();
+  return results.map(rowToCommand);
+}
+
+export async function listClanCommands(db: D1Database, clanId: string): Promise<SlashCommand[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM bot_commands WHERE clanId = ? ORDER BY name`
+  ).bind(clanId).all<Row>();
+  return results.map(rowToCommand);
+}
+
+/**
+ * Names among `names` that another bot of the clan already registered.
+ */
+export async function findTakenCommandNames(db: D1Database, clanId: string, botId: string, names: string[]): Promise<string[]> {
+  if (names.length === 0) return [];
+  const { results } = await db.prepare(
+    `SELECT name FROM bot_commands WHERE clanId = ? AND botId != ? AND name IN (${names.map(() => '?').join(', ')})`
+  ).bind(clanId, botId, ...names).all<{ name: string }>();
+  return results.map(r => r.name);
+}
+
+/**
+ * The bot that registered a clan command, with the key hash its invocations are signed with.
+ */
+export async function findClanCommand(
+  db: D1Database,
+  clanId: string,
+  name: string
+): Promise<{ command: SlashCommand; bot: Bot; keyHash: string } | null> {
+  const row = await db.prepare(
+    `SELECT c.*, b.name AS botName, b.avatarUrl, b.commandUrl, b.keyHash, b.createdBy, b.createdAt AS botCreatedAt
+     FROM bot_commands c JOIN bots b ON b.id = c.botId
+     WHERE c.clanId = ? AND c.name = ?`
+  ).bind(clanId, name).first<Row>();
+  if (!row) return null;
+
+  return {
+    command: rowToCommand(row),
+    bot: rowToBot({ ...row, id: row.botId, name: row.botName, createdAt: row.botCreatedAt }),
+    keyHash: String(row.keyHash),
+  };
+}
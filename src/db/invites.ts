@@ -0,0 +1,72 @@
+// src/db/invites.ts
+import { Invite } from '../types';
+
+type Row = Record<string, unknown>;
+
+// Invites are read far more often than they change, so lookups go through KV first
+const INVITE_CACHE_TTL_SECONDS = 300;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+const CODE_LENGTH = 10;
+
+export function rowToInvite(r: Row): Invite {
+  return {
+    code: String(r.code),
+    clanId: String(r.clanId),
+    channelId: r.channelId ? String(r.channelId) : undefined,
+    createdBy: String(r.createdBy),
+    createdAt: String(r.createdAt),
+    expiresAt: r.expiresAt ? String(r.expiresAt) : undefined,
+    maxUses: r.maxUses === null || r.maxUses === undefined ? undefined : Number(r.maxUses),
+    uses: Number(r.uses || 0),
+    revoked: !!r.revoked,
+  };
+}
+
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
+
+export async function getInvite(db: D1Database, cache: KVNamespace, code: string): Promise<Invite | null> {
+  const cached = await cache.get<Invite>(inviteKey(code), 'json');
+  if (cached) return cached;
+
+  const row = await db.prepare(`SELECT * FROM invites WHERE code = ?`).bind(code).first<Row>();
+  if (!row) return null;
+
+  const invite = rowToInvite(row);
+  await cache.put(inviteKey(code), JSON.stringify(invite), { expirationTtl: INVITE_CACHE_TTL_SECONDS });
+  return invite;
+}
+
+export async function invalidateInvite(cache: KVNamespace, code: string): Promise<void> {
+  await cache.delete(inviteKey(code));
+}
+
+/**
+ * Why an invite can't be used right now, or null when it can.
+ */
+export function inviteUnusableReason(invite: Invite, now: string): string | null {
+  if (invite.revoked) return 'Invite has been revoked';
+  if (invite.expiresAt && invite.expiresAt <= now) return 'Invite has expired';
+  if (invite.maxUses !== undefined && invite.uses >= invite.maxUses) return 'Invite has reached its maximum uses';
+  return null;
+}
+
+/**
+ * Atomically counts one use of an invite. Returns false when it was revoked, expired or used up
+ * in the meantime (the cached copy may be a few minutes stale).
+ */
+export async function claimInvite(db: D1Database, code: string, now: string): Promise<boolean> {
+  const result = await db.prepare(
+    `UPDATE invites SET uses = uses + 1
+     WHERE code = ? AND revoked = 0
+       AND (expiresAt IS NULL OR expiresAt > ?)
+       AND (maxUses IS NULL OR uses < maxUses)`
+  ).bind(code, now).run();
+  return result.meta.changes > 0;
+}
+
+function inviteKey(code: string): string {
+  return `invite:${code}`;
+}
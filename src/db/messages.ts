@@ -0,0 +1,192 @@
+// src/db/messages.ts
+import { Message, ChannelMember, MessageRevision, MessageAuthorType } from '../types';
+import { mediaColumnValues, rowToMediaMetadata } from './attachments';
+import { buildPolls, pollQueries } from './polls';
+
+// D1 allows at most 100 bound parameters per statement
+export const MAX_PAGE_SIZE = 100;
+
+type Row = Record<string, unknown>;
+
+/**
+ * Maps `messages` rows to Message objects and fills in their reactions,
+ * attachments, mentions, polls and thread reply summaries from the relation tables.
+ */
+export async function hydrateMessages(
+  db: D1Database,
+  rows: Row[],
+  members?: Map<string, ChannelMember>
+): Promise<Message[]> {
+  const messages = rows.map((r) => rowToMessage(r, members?.get(String(r.userId))));
+  if (messages.length === 0) return messages;
+
+  const ids = messages.map(m => m.id);
+  const placeholders = ids.map(() => '?').join(', ');
+
+  const [reactions, attachments, mentions, threads, polls, votes] = await db.batch([
+    db.prepare(
+      `SELECT messageId, reaction, userId FROM message_reactions WHERE messageId IN (${placeholders}) ORDER BY createdAt`
+    ).bind(...ids),
+    db.prepare(
+      `SELECT * FROM message_attachments WHERE messageId IN (${placeholders}) ORDER BY position`
+    ).bind(...ids),
+    db.prepare(
+      `SELECT messageId, userId FROM message_mentions WHERE messageId IN (${placeholders})`
+    ).bind(...ids),
+    db.prepare(
+      `SELECT threadId, COUNT(*) as replyCount, MAX(timestamp) as lastReplyAt FROM messages
+       WHERE threadId IN (${placeholders}) AND deleted = 0 GROUP BY threadId`
+    ).bind(...ids),
+    ...pollQueries(db, ids),
+  ]);
+
+  const byId = new Map(messages.map(m => [m.id, m]));
+
+  for (const r of reactions.results as Row[]) {
+    const msg = byId.get(String(r.messageId));
+    if (!msg) continue;
+    const reaction = String(r.reaction);
+    (msg.reactions[reaction] ||= []).push(String(r.userId));
+  }
+
+  for (const r of attachments.results as Row[]) {
+    byId.get(String(r.messageId))?.attachments.push({
+      id: String(r.attachmentId),
+      filename: r.filename ? String(r.filename) : undefined,
+      size: r.size !== null ? Number(r.size) : undefined,
+      contentType: r.contentType ? String(r.contentType) : undefined,
+      url: r.url ? String(r.url) : `/api/attachments/${r.attachmentId}`,
+      ...rowToMediaMetadata(r),
+    });
+  }
+
+  for (const r of mentions.results as Row[]) {
+    byId.get(String(r.messageId))?.mentions.push(String(r.userId));
+  }
+
+  for (const r of threads.results as Row[]) {
+    const msg = byId.get(String(r.threadId));
+    if (!msg) continue;
+    msg.threadReplyCount = Number(r.replyCount);
+    msg.lastReplyAt = String(r.lastReplyAt);
+  }
+
+  for (const [messageId, poll] of buildPolls(polls.results as Row[], votes.results as Row[])) {
+    byId.get(messageId)!.poll = poll;
+  }
+
+  return messages;
+}
+
+/**
+ * Loads a single non-deleted message of a channel, for when it isn't in the ChatRoom cache.
+ */
+export async function findMessage(
+  db: D1Database,
+  channelId: string,
+  messageId: string,
+  members?: Map<string, ChannelMember>
+): Promise<Message | null> {
+  const row = await db.prepare(
+    `SELECT * FROM messages WHERE id = ? AND channelId = ? AND deleted = 0`
+  ).bind(messageId, channelId).first<Row>();
+
+  if (!row) return null;
+  const [message] = await hydrateMessages(db, [row], members);
+  return message;
+}
+
+export async function getThreadSummary(
+  db: D1Database,
+  threadId: string
+): Promise<{ threadReplyCount: number; lastReplyAt?: string }> {
+  const row = await db.prepare(
+    `SELECT COUNT(*) as replyCount, MAX(timestamp) as lastReplyAt FROM messages WHERE threadId = ? AND deleted = 0`
+  ).bind(threadId).first<Row>();
+
+  return {
+    threadReplyCount: Number(row?.replyCount || 0),
+    lastReplyAt: row?.lastReplyAt ? String(row.lastReplyAt) : undefined,
+  };
+}
+
+export function rowToMessage(r: Row, member?: ChannelMember): Message {
+  return {
+    id: String(r.id),
+    channelId: String(r.channelId),
+    userId: String(r.userId),
+    content: String(r.content),
+    timestamp: String(r.timestamp),
+    edited: !!r.edited,
+    editedAt: r.editedAt ? String(r.editedAt) : undefined,
+    deleted: !!r.deleted,
+    threadId: r.threadId ? String(r.threadId) : undefined,
+    replyTo: r.replyTo ? String(r.replyTo) : undefined,
+    attachments: [],
+    reactions: {},
+    authorType: r.authorType ? String(r.authorType) as MessageAuthorType : undefined,
+    user: {
+      uid: String(r.userId),
+      username: String(r.username || member?.username || 'User'),
+      profileImage: String(r.profileImage || member?.avatar || '')
+    },
+    mentions: []
+  };
+}
+
+/**
+ * Statements that store a new message's attachments and mentions; run them in
+ * the same batch as the message insert.
+ */
+export function relationInserts(db: D1Database, message: Message): D1PreparedStatement[] {
+  const statements: D1PreparedStatement[] = [];
+
+  message.attachments.forEach((a, position) => {
+    statements.push(db.prepare(
+      `INSERT OR IGNORE INTO message_attachments (messageId, attachmentId, position, filename, size, contentType, url,
+         width, height, durationSeconds, blurhash, dominantColor, thumbnails)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      message.id,
+      a.id,
+      position,
+      a.filename ?? null,
+      typeof a.size === 'number' ? a.size : null,
+      a.contentType ?? null,
+      a.url,
+      ...mediaColumnValues(a)
+    ));
+  });
+
+  for (const userId of message.mentions) {
+    statements.push(db.prepare(
+      `INSERT OR IGNORE INTO message_mentions (messageId, userId) VALUES (?, ?)`
+    ).bind(message.id, userId));
+  }
+
+  return statements;
+}
+
+/**
+ * Statement that keeps a message's current content as a revision; batch it with the edit.
+ */
+export function revisionInsert(
+  db: D1Database,
+  message: Pick<Message, 'id' | 'channelId' | 'content'>,
+  editedBy: string,
+  editedAt: string
+): D1PreparedStatement {
+  return db.prepare(
+    `INSERT INTO message_revisions (id, messageId, channelId, content, editedBy, editedAt) VALUES (?, ?, ?, ?, ?, ?)`
+  ).bind(crypto.randomUUID(), message.id, message.channelId, message.content, editedBy, editedAt);
+}
+
+/**
+ * A message's earlier versions, oldest first. Each revision holds the content that edit replaced.
+ */
+export async function getRevisions(db: D1Database, messageId: string): Promise<MessageRevision[]> {
+  const { results } = await db.prepare(
+    `SELECT content, editedBy, editedAt FROM message_revisions WHERE messageId = ? ORDER BY editedAt`
+  ).bind(messageId).all<MessageRevision>();
+  return results;
+}
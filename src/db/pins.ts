@@ -0,0 +1,55 @@
+// src/db/pins.ts
+import { ChannelMember, PinnedMessage } from '../types';
+import { hydrateMessages } from './messages';
+
+export const MAX_PINS_PER_CHANNEL = 50;
+
+type Row = Record<string, unknown>;
+
+/**
+ * A channel's pinned messages, most recently pinned first. Pins of deleted messages are skipped.
+ */
+export async function getPins(
+  db: D1Database,
+  channelId: string,
+  members?: Map<string, ChannelMember>
+): Promise<PinnedMessage[]> {
+  const { results } = await db.prepare(
+    `SELECT m.*, p.pinnedBy, p.pinnedAt FROM channel_pins p
+     JOIN messages m ON m.id = p.messageId
+     WHERE p.channelId = ? AND m.deleted = 0
+     ORDER BY p.pinnedAt DESC LIMIT ?`
+  ).bind(channelId, MAX_PINS_PER_CHANNEL).all<Row>();
+
+  const messages = await hydrateMessages(db, results, members);
+  return messages.map((message, i) => ({
+    message,
+    pinnedBy: String(results[i].pinnedBy),
+    pinnedAt: String(results[i].pinnedAt),
+  }));
+}
+
+/**
+ * Pins a message unless it is already pinned or the channel is at its pin limit.
+ * Returns false when nothing was pinned.
+ */
+export async function pinMessage(
+  db: D1Database,
+  channelId: string,
+  messageId: string,
+  pinnedBy: string,
+  pinnedAt: string
+): Promise<boolean> {
+  const result = await db.prepare(
+    `INSERT OR IGNORE INTO channel_pins (channelId, messageId, pinnedBy, pinnedAt)
+     SELECT ?, ?, ?, ? WHERE (SELECT COUNT(*) FROM channel_pins WHERE channelId = ?) < ?`
+  ).bind(channelId, messageId, pinnedBy, pinnedAt, channelId, MAX_PINS_PER_CHANNEL).run();
+  return !!result.meta.changes;
+}
+
+export async function unpinMessage(db: D1Database, channelId: string, messageId: string): Promise<boolean> {
+  const result = await db.prepare(
+    `DELETE FROM channel_pins WHERE channelId = ? AND messageId = ?`
+  ).bind(channelId, messageId).run();
+  return !!result.meta.changes;
+}
@@ -0,0 +1,142 @@
+// src/db/polls.ts
+import { Poll } from '../types';
+
+type Row = Record<string, unknown>;
+
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_OPTION_LENGTH = 100;
+
+/**
+ * Builds polls with their tallies from `polls` rows and the matching `poll_votes` rows, keyed by messageId.
+ * A poll past its close time counts as closed even before the room's alarm has recorded it.
+ */
+export function buildPolls(pollRows: Row[], voteRows: Row[]): Map<string, Poll> {
+  const now = new Date().toISOString();
+  const polls = new Map<string, Poll>();
+  const voters = new Map<string, Set<string>>();
+
+  for (const r of pollRows) {
+    const options = JSON.parse(String(r.options)) as Array<{ id: string; text: string }>;
+    const anonymous = !!r.anonymous;
+    const closesAt = r.closesAt ? String(r.closesAt) : undefined;
+    polls.set(String(r.messageId), {
+      question: String(r.question),
+      options: options.map(o => ({ id: o.id, text: o.text, votes: 0, ...(anonymous ? {} : { voters: [] }) })),
+      multipleChoice: !!r.multipleChoice,
+      anonymous,
+      closesAt,
+      closedAt: r.closedAt ? String(r.closedAt) : closesAt && closesAt <= now ? closesAt : undefined,
+      closedBy: r.closedBy ? String(r.closedBy) : undefined,
+      totalVoters: 0,
+    });
+    voters.set(String(r.messageId), new Set());
+  }
+
+  for (const r of voteRows) {
+    const messageId = String(r.messageId);
+    const option = polls.get(messageId)?.options.find(o => o.id === String(r.optionId));
+    if (!option) continue;
+    option.votes++;
+    option.voters?.push(String(r.userId));
+    voters.get(messageId)!.add(String(r.userId));
+  }
+
+  for (const [messageId, poll] of polls) {
+    poll.totalVoters = voters.get(messageId)!.size;
+  }
+  return polls;
+}
+
+/**
+ * Queries for the polls among the given messages and their votes, for buildPolls.
+ */
+export function pollQueries(db: D1Database, messageIds: string[]): [D1PreparedStatement, D1PreparedStatement] {
+  const placeholders = messageIds.map(() => '?').join(', ');
+  return [
+    db.prepare(`SELECT * FROM polls WHERE messageId IN (${placeholders})`).bind(...messageIds),
+    db.prepare(
+      `SELECT messageId, optionId, userId FROM poll_votes WHERE messageId IN (${placeholders}) ORDER BY createdAt`
+    ).bind(...messageIds),
+  ];
+}
+
+export async function getPoll(db: D1Database, messageId: string): Promise<Poll | null> {
+  const [polls, votes] = await db.batch(pollQueries(db, [messageId]));
+  return buildPolls(polls.results as Row[], votes.results as Row[]).get(messageId) ?? null;
+}
+
+/**
+ * Statement that stores a new message's poll; batch it with the message insert.
+ */
+export function pollInsert(
+  db: D1Database,
+  messageId: string,
+  channelId: string,
+  createdBy: string,
+  createdAt: string,
+  poll: Poll
+): D1PreparedStatement {
+  return db.prepare(
+    `INSERT INTO polls (messageId, channelId, question, options, multipleChoice, anonymous, closesAt, createdBy, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    messageId,
+    channelId,
+    poll.question,
+    JSON.stringify(poll.options.map(o => ({ id: o.id, text: o.text }))),
+    poll.multipleChoice ? 1 : 0,
+    poll.anonymous ? 1 : 0,
+    poll.closesAt ?? null,
+    createdBy,
+    createdAt
+  );
+}
+
+/**
+ * Replaces a user's votes on a poll. Both statements only apply while the poll is open, so a vote
+ * racing the close can't change the final tallies. Returns false when the poll was already closed.
+ */
+export async function setPollVotes(db: D1Database, messageId: string, userId: string, optionIds: string[]): Promise<boolean> {
+  const now = new Date().toISOString();
+  const isOpen = `EXISTS (SELECT 1 FROM polls WHERE messageId = ? AND closedAt IS NULL AND (closesAt IS NULL OR closesAt > ?))`;
+
+  const [removed, ...added] = await db.batch([
+    db.prepare(
+      `DELETE FROM poll_votes WHERE messageId = ? AND userId = ? AND ${isOpen}`
+    ).bind(messageId, userId, messageId, now),
+    ...optionIds.map(optionId => db.prepare(
+      `INSERT OR IGNORE INTO poll_votes (messageId, optionId, userId, createdAt) SELECT ?, ?, ?, ? WHERE ${isOpen}`
+    ).bind(messageId, optionId, userId, now, messageId, now)),
+  ]);
+
+  if (added.some(result => result.meta.changes > 0) || removed.meta.changes > 0) return true;
+  // Nothing changed: either the poll is closed or the vote was a no-op
+  const open = await db.prepare(`SELECT ${isOpen} AS open`).bind(messageId, now).first<number>('open');
+  return !!open;
+}
+
+/**
+ * Closes a poll as of closedAt. Returns false when it was already closed.
+ */
+export async function closePoll(db: D1Database, messageId: string, closedBy: string | null, closedAt: string): Promise<boolean> {
+  const result = await db.prepare(
+    `UPDATE polls SET closedAt = ?, closedBy = ? WHERE messageId = ? AND closedAt IS NULL`
+  ).bind(closedAt, closedBy, messageId).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * The options a user holds on each of the given polls, for showing their own votes on anonymous polls.
+ */
+export async function getUserPollVotes(db: D1Database, userId: string, messageIds: string[]): Promise<Record<string, string[]>> {
+  const votes: Record<string, string[]> = {};
+  if (messageIds.length === 0) return votes;
+
+  const { results } = await db.prepare(
+    `SELECT messageId, optionId FROM poll_votes WHERE userId = ? AND messageId IN (${messageIds.map(() => '?').join(', ')})`
+  ).bind(userId, ...messageIds).all<{ messageId: string; optionId: string }>();
+  for (const r of results) {
+    (votes[r.messageId] ||= []).push(r.optionId);
+  }
+  return votes;
+}
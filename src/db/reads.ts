@@ -0,0 +1,67 @@
+// src/db/reads.ts
+import { ReadPosition, UnreadSummary } from '../types';
+
+// Unread = live main-timeline messages from others after the read position; mentions also count in threads
+const UNREAD_SUMMARY_QUERY = `
+  SELECT cm.channelId, r.lastReadMessageId, r.lastReadAt,
+    (SELECT COUNT(*) FROM messages m
+      WHERE m.channelId = cm.channelId AND m.deleted = 0 AND m.threadId IS NULL
+        AND m.userId != cm.userId AND m.timestamp > COALESCE(r.lastReadAt, '')) AS unreadCount,
+    (SELECT COUNT(*) FROM message_mentions mm JOIN messages m ON m.id = mm.messageId
+      WHERE mm.userId = cm.userId AND m.channelId = cm.channelId AND m.deleted = 0
+        AND m.timestamp > COALESCE(r.lastReadAt, '')) AS mentionCount
+  FROM channel_members cm
+  LEFT JOIN channel_reads r ON r.channelId = cm.channelId AND r.userId = cm.userId
+  WHERE cm.userId = ?`;
+
+/**
+ * Moves a member's read position forward. Returns false when the position was
+ * already at or past the given message (read positions never move backwards).
+ */
+export async function markRead(
+  db: D1Database,
+  channelId: string,
+  userId: string,
+  messageId: string,
+  messageTimestamp: string
+): Promise<boolean> {
+  const result = await db.prepare(
+    `INSERT INTO channel_reads (channelId, userId, lastReadMessageId, lastReadAt, updatedAt)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (channelId, userId) DO UPDATE SET
+       lastReadMessageId = excluded.lastReadMessageId,
+       lastReadAt = excluded.lastReadAt,
+       updatedAt = excluded.updatedAt
+     WHERE excluded.lastReadAt > channel_reads.lastReadAt`
+  ).bind(channelId, userId, messageId, messageTimestamp, new Date().toISOString()).run();
+
+  return !!result.meta.changes;
+}
+
+export async function getChannelReads(db: D1Database, channelId: string): Promise<ReadPosition[]> {
+  const { results } = await db.prepare(
+    `SELECT userId, lastReadMessageId, lastReadAt FROM channel_reads WHERE channelId = ?`
+  ).bind(channelId).all<ReadPosition>();
+  return results;
+}
+
+/**
+ * Unread and mention counts for every channel the user is a member of, or just one channel.
+ */
+export async function getUnreadSummary(
+  db: D1Database,
+  userId: string,
+  channelId?: string
+): Promise<UnreadSummary[]> {
+  const query = channelId ? `${UNREAD_SUMMARY_QUERY} AND cm.channelId = ?` : UNREAD_SUMMARY_QUERY;
+  const statement = channelId ? db.prepare(query).bind(userId, channelId) : db.prepare(query).bind(userId);
+  const { results } = await statement.all<Record<string, unknown>>();
+
+  return results.map((r) => ({
+    channelId: String(r.channelId),
+    lastReadMessageId: r.lastReadMessageId ? String(r.lastReadMessageId) : null,
+    lastReadAt: r.lastReadAt ? String(r.lastReadAt) : null,
+    unreadCount: Number(r.unreadCount),
+    mentionCount: Number(r.mentionCount),
+  }));
+}
@@ -0,0 +1,157 @@
+// src/db/retention.ts
+import { MAX_PAGE_SIZE } from './messages';
+import { AttachmentRecord } from '../types';
+import { attachmentR2Keys, rowToAttachment } from './attachments';
+
+export interface RetentionPolicy {
+  channelId: string;
+  retentionDays?: number;
+  retentionMaxMessages?: number;
+}
+
+export interface RetentionReport {
+  startedAt: string;
+  finishedAt: string;
+  messagesPurged: number;
+  attachmentsPurged: number;
+  // Per channel: messages past the retention policy, and soft-deleted messages past their grace period
+  channels: Array<{ channelId: string; expired: number; softDeleted: number }>;
+}
+
+export async function listRetentionPolicies(db: D1Database): Promise<RetentionPolicy[]> {
+  const { results } = await db.prepare(
+    `SELECT id, retentionDays, retentionMaxMessages FROM channels
+     WHERE retentionDays IS NOT NULL OR retentionMaxMessages IS NOT NULL`
+  ).all<Record<string, unknown>>();
+
+  return results.map(r => ({
+    channelId: String(r.id),
+    retentionDays: r.retentionDays ? Number(r.retentionDays) : undefined,
+    retentionMaxMessages: r.retentionMaxMessages ? Number(r.retentionMaxMessages) : undefined,
+  }));
+}
+
+/**
+ * Ids of a channel's messages that fall outside its retention policy, oldest first.
+ */
+export async function findExpiredMessageIds(
+  db: D1Database,
+  policy: RetentionPolicy,
+  now: number,
+  limit: number
+): Promise<string[]> {
+  const ids = new Set<string>();
+
+  if (policy.retentionDays) {
+    const cutoff = new Date(now - policy.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const { results } = await db.prepare(
+      `SELECT id FROM messages WHERE channelId = ? AND timestamp < ? ORDER BY timestamp LIMIT ?`
+    ).bind(policy.channelId, cutoff, limit).all<{ id: string }>();
+    results.forEach(r => ids.add(r.id));
+  }
+
+  if (policy.retentionMaxMessages && ids.size < limit) {
+    const { results } = await db.prepare(
+      `SELECT id FROM messages WHERE channelId = ? AND deleted = 0 ORDER BY timestamp DESC LIMIT ? OFFSET ?`
+    ).bind(policy.channelId, limit - ids.size, policy.retentionMaxMessages).all<{ id: string }>();
+    results.forEach(r => ids.add(r.id));
+  }
+
+  return Array.from(ids);
+}
+
+/**
+ * Soft-deleted messages whose grace period is over. Rows deleted before deletedAt
+ * was recorded fall back to their send time.
+ */
+export async function findPurgeableDeletedMessages(
+  db: D1Database,
+  cutoff: string,
+  limit: number
+): Promise<Array<{ id: string; channelId: string }>> {
+  const { results } = await db.prepare(
+    `SELECT id, channelId FROM messages WHERE deleted = 1 AND COALESCE(deletedAt, timestamp) < ? LIMIT ?`
+  ).bind(cutoff, limit).all<{ id: string; channelId: string }>();
+  return results;
+}
+
+/**
+ * Hard-deletes messages together with their reactions, attachments, mentions, revisions and pins.
+ * Returns the R2 keys of the deleted messages' files and thumbnails, for the caller to remove.
+ */
+export async function purgeMessages(db: D1Database, ids: string[]): Promise<string[]> {
+  const r2Keys: string[] = [];
+  for (let i = 0; i < ids.length; i += MAX_PAGE_SIZE) {
+    const chunk = ids.slice(i, i + MAX_PAGE_SIZE);
+    const placeholders = chunk.map(() => '?').join(', ');
+    const [files] = await db.batch([
+      db.prepare(`SELECT * FROM attachments WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM attachments WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM message_reactions WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM message_attachments WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM message_mentions WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM message_revisions WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM channel_pins WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM poll_votes WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM polls WHERE messageId IN (${placeholders})`).bind(...chunk),
+      db.prepare(`DELETE FROM messages WHERE id IN (${placeholders})`).bind(...chunk),
+    ]);
+    r2Keys.push(...(files.results as Record<string, unknown>[]).flatMap(f => attachmentR2Keys(rowToAttachment(f))));
+  }
+  return r2Keys;
+}
+
+/**
+ * Uploads that were never sent in a message and are older than the cutoff.
+ */
+export async function findUnsentAttachments(
+  db: D1Database,
+  cutoff: string,
+  limit: number
+): Promise<AttachmentRecord[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM attachments WHERE messageId IS NULL AND createdAt < ? LIMIT ?`
+  ).bind(cutoff, limit).all<Record<string, unknown>>();
+  return results.map(rowToAttachment);
+}
+
+export async function deleteAttachmentRows(db: D1Database, ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += MAX_PAGE_SIZE) {
+    const chunk = ids.slice(i, i + MAX_PAGE_SIZE);
+    await db.prepare(
+      `DELETE FROM attachments WHERE id IN (${chunk.map(() => '?').join(', ')})`
+    ).bind(...chunk).run();
+  }
+}
+
+/**
+ * Which of the given file ids are still known: recorded uploads, or files of stored messages
+ * uploaded before uploads were recorded.
+ */
+export async function findReferencedAttachmentIds(db: D1Database, attachmentIds: string[]): Promise<Set<string>> {
+  const referenced = new Set<string>();
+  for (let i = 0; i < attachmentIds.length; i += MAX_PAGE_SIZE / 2) {
+    const chunk = attachmentIds.slice(i, i + MAX_PAGE_SIZE / 2);
+    const placeholders = chunk.map(() => '?').join(', ');
+    const { results } = await db.prepare(
+      `SELECT id FROM attachments WHERE id IN (${placeholders})
+       UNION SELECT attachmentId FROM message_attachments WHERE attachmentId IN (${placeholders})`
+    ).bind(...chunk, ...chunk).all<{ id: string }>();
+    results.forEach(r => referenced.add(r.id));
+  }
+  return referenced;
+}
+
+export async function recordRetentionRun(db: D1Database, report: RetentionReport): Promise<void> {
+  await db.prepare(
+    `INSERT INTO retention_runs (id, startedAt, finishedAt, messagesPurged, attachmentsPurged, report)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).bind(
+    crypto.randomUUID(),
+    report.startedAt,
+    report.finishedAt,
+    report.messagesPurged,
+    report.attachmentsPurged,
+    JSON.stringify(report.channels)
+  ).run();
+}
@@ -0,0 +1,147 @@
+// src/db/search.ts
+import { Message } from '../types';
+import { hydrateMessages, MAX_PAGE_SIZE } from './messages';
+
+export interface SearchOptions {
+  query: string;
+  authorId?: string;
+  after?: string;
+  before?: string;
+  hasAttachment?: boolean;
+  inThread?: boolean;
+  limit: number;
+  offset: number;
+}
+
+// A single channel, the channels of a clan the user can read, or every channel the user is a member of
+export type SearchScope = { channelId: string } | { clanId: string; memberId: string } | { memberId: string };
+
+export interface SearchResult {
+  message: Message;
+  // HTML: the message text escaped, with matches wrapped in <mark>
+  snippet: string;
+  rank: number;
+}
+
+// Private-use characters FTS5 puts around matches; they become <mark> tags once the text is escaped
+const MATCH_START = '\uE000';
+const MATCH_END = '\uE001';
+
+/**
+ * Parses search filters from query params. Returns null when `q` is missing or has no terms.
+ */
+export function parseSearchOptions(params: URLSearchParams): SearchOptions | null {
+  const query = toMatchExpression(params.get('q') || '');
+  if (!query) return null;
+
+  const flag = (name: string) => {
+    const value = params.get(name);
+    return value === null ? undefined : value === 'true';
+  };
+
+  return {
+    query,
+    authorId: params.get('author') || undefined,
+    after: params.get('after') || undefined,
+    before: params.get('before') || undefined,
+    hasAttachment: flag('hasAttachment'),
+    inThread: flag('inThread'),
+    limit: Math.min(Math.max(parseInt(params.get('limit') || '20') || 20, 1), MAX_PAGE_SIZE),
+    offset: Math.max(parseInt(params.get('offset') || '0') || 0, 0),
+  };
+}
+
+/**
+ * Ranked full-text search over live messages, with highlighted snippets.
+ */
+export async function searchMessages(
+  db: D1Database,
+  scope: SearchScope,
+  options: SearchOptions
+): Promise<{ results: SearchResult[]; hasMore: boolean }> {
+  let query = `SELECT m.*,
+      snippet(messages_fts, 0, '${MATCH_START}', '${MATCH_END}', '…', 16) AS snippet,
+      bm25(messages_fts) AS rank
+    FROM messages_fts
+    JOIN messages m ON m.rowid = messages_fts.rowid
+    WHERE messages_fts MATCH ? AND m.deleted = 0`;
+  const params: any[] = [options.query];
+
+  if ('channelId' in scope) {
+    query += ` AND m.channelId = ?`;
+    params.push(scope.channelId);
+  } else if ('clanId' in scope) {
+    query += ` AND m.channelId IN (SELECT id FROM channels WHERE clanId = ?
+      AND (type != 'private' OR id IN (SELECT channelId FROM channel_members WHERE userId = ?)))`;
+    params.push(scope.clanId, scope.memberId);
+  } else {
+    query += ` AND m.channelId IN (SELECT channelId FROM channel_members WHERE userId = ?)`;
+    params.push(scope.memberId);
+  }
+  // Channels the searcher is banned from are out of reach, as they are over REST and WS
+  if ('memberId' in scope) {
+    query += ` AND m.channelId NOT IN (SELECT channelId FROM channel_bans WHERE userId = ? AND (expiresAt IS NULL OR expiresAt > ?))`;
+    params.push(scope.memberId, new Date().toISOString());
+  }
+
+  if (options.authorId) {
+    query += ` AND m.userId = ?`;
+    params.push(options.authorId);
+  }
+  if (options.after) {
+    query += ` AND m.timestamp >= ?`;
+    params.push(options.after);
+  }
+  if (options.before) {
+    query += ` AND m.timestamp < ?`;
+    params.push(options.before);
+  }
+  if (options.hasAttachment !== undefined) {
+    query += ` AND ${options.hasAttachment ? '' : 'NOT '}EXISTS (SELECT 1 FROM message_attachments a WHERE a.messageId = m.id)`;
+  }
+  if (options.inThread !== undefined) {
+    query += ` AND m.threadId IS ${options.inThread ? 'NOT ' : ''}NULL`;
+  }
+
+  // Fetch one extra row to know whether there is another page
+  query += ` ORDER BY rank LIMIT ? OFFSET ?`;
+  params.push(options.limit + 1, options.offset);
+
+  const { results } = await db.prepare(query).bind(...params).all<Record<string, unknown>>();
+  const page = results.slice(0, options.limit);
+  const messages = await hydrateMessages(db, page);
+
+  return {
+    results: messages.map((message, i) => ({
+      message,
+      snippet: highlightSnippet(String(page[i].snippet)),
+      rank: Number(page[i].rank),
+    })),
+    hasMore: results.length > options.limit,
+  };
+}
+
+/**
+ * Turns an FTS5 snippet into safe HTML. The message text is escaped first, so only our own <mark> tags survive.
+ */
+export function highlightSnippet(snippet: string): string {
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replaceAll(MATCH_START, '<mark>')
+    .replaceAll(MATCH_END, '</mark>');
+}
+
+/**
+ * Turns free text into an FTS5 expression: every term must match, the last one as a prefix.
+ * Terms are quoted so user input can't inject FTS5 operators or cause syntax errors.
+ */
+function toMatchExpression(input: string): string {
+  const terms = input.trim().split(/\s+/).filter(Boolean).slice(0, 16);
+  return terms
+    .map((term, i) => `"${term.replace(/"/g, '""')}"${i === terms.length - 1 ? '*' : ''}`)
+    .join(' ');
+}
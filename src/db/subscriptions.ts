@@ -0,0 +1,314 @@
+// src/db/subscriptions.ts
+import { DeliveryStatus, EventDelivery, EventSubscription, SubscribableEvent } from '../types';
+import { MAX_PAGE_SIZE } from './messages';
+
+type Row = Record<string, unknown>;
+
+export const SUBSCRIBABLE_EVENTS: SubscribableEvent[] = [
+  'new_message', 'message_edited', 'message_deleted', 'reaction_added', 'reaction_removed',
+  'message_pinned', 'message_unpinned', 'messages_purged', 'channel_updated',
+  'member_added', 'member_removed', 'member_kicked', 'member_banned', 'member_unbanned',
+  'member_muted', 'member_unmuted', 'member_role_updated',
+];
+
+export const MAX_SUBSCRIPTIONS_PER_CLAN = 20;
+
+// A delivery that is due, with what's needed to send it
+export interface DueDelivery {
+  delivery: EventDelivery;
+  payload: string;
+  // Unset when the subscription was deleted or disabled after the event was queued
+  target?: { url: string; secret: string };
+}
+
+function rowToSubscription(r: Row): EventSubscription {
+  return {
+    id: String(r.id),
+    clanId: String(r.clanId),
+    channelId: r.channelId ? String(r.channelId) : undefined,
+    url: String(r.url),
+    events: JSON.parse(String(r.events)),
+    active: !!r.active,
+    createdBy: String(r.createdBy),
+    createdAt: String(r.createdAt),
+  };
+}
+
+function rowToDelivery(r: Row): EventDelivery {
+  return {
+    id: String(r.id),
+    subscriptionId: String(r.subscriptionId),
+    channelId: String(r.channelId),
+    eventType: String(r.eventType) as SubscribableEvent,
+    status: String(r.status) as DeliveryStatus,
+    attempts: Number(r.attempts),
+    nextAttemptAt: r.nextAttemptAt ? String(r.nextAttemptAt) : undefined,
+    lastAttemptAt: r.lastAttemptAt ? String(r.lastAttemptAt) : undefined,
+    responseStatus: r.responseStatus != null ? Number(r.responseStatus) : undefined,
+    responseBody: r.responseBody ? String(r.responseBody) : undefined,
+    lastError: r.lastError ? String(r.lastError) : undefined,
+    createdAt: String(r.createdAt),
+    redeliveryOf: r.redeliveryOf ? String(r.redeliveryOf) : undefined,
+  };
+}
+
+// --- Subscriptions ---
+
+export async function insertSubscription(db: D1Database, subscription: EventSubscription, secret: string): Promise<void> {
+  await db.prepare(
+    `INSERT INTO event_subscriptions (id, clanId, channelId, url, secret, events, active, createdBy, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    subscription.id,
+    subscription.clanId,
+    subscription.channelId ?? null,
+    subscription.url,
+    secret,
+    JSON.stringify(subscription.events),
+    subscription.active ? 1 : 0,
+    subscription.createdBy,
+    subscription.createdAt
+  ).run();
+}
+
+export async function getSubscription(db: D1Database, subscriptionId: string): Promise<EventSubscription | null> {
+  const row = await db.prepare(`SELECT * FROM event_subscriptions WHERE id = ?`).bind(subscriptionId).first<Row>();
+  return row ? rowToSubscription(row) : null;
+}
+
+/**
+ * A clan's subscriptions; with channelId, only that channel's own.
+ */
+export async function listSubscriptions(db: D1Database, clanId: string, channelId?: string): Promise<EventSubscription[]> {
+  const { results } = channelId
+    ? await db.prepare(
+        `SELECT * FROM event_subscriptions WHERE clanId = ? AND channelId = ? ORDER BY createdAt`
+      ).bind(clanId, channelId).all<Row>()
+    : await db.prepare(
+        `SELECT * FROM event_subscriptions WHERE clanId = ? ORDER BY createdAt`
+      ).bind(clanId).all<Row>();
+  return results.map(rowToSubscription);
+}
+
+export async function countClanSubscriptions(db: D1Database, clanId: string): Promise<number> {
+  return (await db.prepare(
+    `SELECT COUNT(*) as count FROM event_subscriptions WHERE clanId = ?`
+  ).bind(clanId).first<number>('count')) || 0;
+}
+
+/**
+ * Active subscriptions that receive a channel's events: its own and its clan's clan-wide ones.
+ */
+export async function findChannelSubscriptions(db: D1Database, channelId: string, clanId: string): Promise<EventSubscription[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM event_subscriptions
+     WHERE active = 1 AND clanId = ? AND (channelId = ? OR channelId IS NULL)`
+  ).bind(clanId, channelId).all<Row>();
+  return results.map(rowToSubscription);
+}
+
+export async function updateSubscription(
+  db: D1Database,
+  subscriptionId: string,
+  changes: { url?: string; events?: SubscribableEvent[]; active?: boolean }
+): Promise<void> {
+  const sets: string[] = [];
+  const params: unknown[] = [];
+  if (changes.url !== undefined) {
+    sets.push('url = ?');
+    params.push(changes.url);
+  }
+  if (changes.events !== undefined) {
+    sets.push('events = ?');
+    params.push(JSON.stringify(changes.events));
+  }
+  if (changes.active !== undefined) {
+    sets.push('active = ?');
+    params.push(changes.active ? 1 : 0);
+  }
+  if (sets.length === 0) return;
+
+  await db.prepare(
+    `UPDATE event_subscriptions SET ${sets.join(', ')} WHERE id = ?`
+  ).bind(...params, subscriptionId).run();
+}
+
+/**
+ * Statements that delete a subscription and its delivery log.
+ */
+export function subscriptionDeletes(db: D1Database, subscriptionId: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`DELETE FROM event_deliveries WHERE subscriptionId = ?`).bind(subscriptionId),
+    db.prepare(`DELETE FROM event_subscriptions WHERE id = ?`).bind(subscriptionId),
+  ];
+}
+
+// --- Deliveries ---
+
+/**
+ * Statements that queue one event for each subscription, due immediately.
+ */
+export function deliveryInserts(
+  db: D1Database,
+  subscriptionIds: string[],
+  channelId: string,
+  eventType: SubscribableEvent,
+  payload: string
+): D1PreparedStatement[] {
+  const now = new Date().toISOString();
+  return subscriptionIds.map(subscriptionId => db.prepare(
+    `INSERT INTO event_deliveries (id, subscriptionId, channelId, eventType, payload, status, attempts, nextAttemptAt, createdAt)
+     VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?)`
+  ).bind(crypto.randomUUID(), subscriptionId, channelId, eventType, payload, now, now));
+}
+
+export async function findDueDeliveries(db: D1Database, channelId: string, now: string, limit: number): Promise<DueDelivery[]> {
+  const { results } = await db.prepare(
+    `SELECT d.*, s.url AS targetUrl, s.secret AS targetSecret, s.active AS targetActive
+     FROM event_deliveries d LEFT JOIN event_subscriptions s ON s.id = d.subscriptionId
+     WHERE d.channelId = ? AND d.status = 'pending' AND d.nextAttemptAt <= ?
+     ORDER BY d.nextAttemptAt LIMIT ?`
+  ).bind(channelId, now, limit).all<Row>();
+
+  return results.map(r => ({
+    delivery: rowToDelivery(r),
+    payload: String(r.payload),
+    target: r.targetUrl && r.targetActive ? { url: String(r.targetUrl), secret: String(r.targetSecret) } : undefined,
+  }));
+}
+
+export async function recordDeliveryAttempt(
+  db: D1Database,
+  deliveryId: string,
+  attempt: {
+    status: DeliveryStatus;
+    attempts: number;
+    nextAttemptAt?: string;
+    responseStatus?: number;
+    responseBody?: string;
+    lastError?: string;
+  }
+): Promise<void> {
+  await db.prepare(
+    `UPDATE event_deliveries
+     SET status = ?, attempts = ?, nextAttemptAt = ?, lastAttemptAt = ?, responseStatus = ?, responseBody = ?, lastError = ?
+     WHERE id = ?`
+  ).bind(
+    attempt.status,
+    attempt.attempts,
+    attempt.nextAttemptAt ?? null,
+    new Date().toISOString(),
+    attempt.responseStatus ?? null,
+    attempt.responseBody ?? null,
+    attempt.lastError ?? null,
+    deliveryId
+  ).run();
+}
+
+/**
+ * When the channel's next pending delivery is due, or null if nothing is pending.
+ */
+export async function nextPendingDeliveryAt(db: D1Database, channelId: string): Promise<number | null> {
+  const next = await db.prepare(
+    `SELECT MIN(nextAttemptAt) as next FROM event_deliveries WHERE channelId = ? AND status = 'pending'`
+  ).bind(channelId).first<string | null>('next');
+  return next ? Date.parse(next) : null;
+}
+
+export async function getDelivery(db: D1Database, deliveryId: string): Promise<(EventDelivery & { payload: string }) | null> {
+  const row = await db.prepare(`SELECT * FROM event_deliveries WHERE id = ?`).bind(deliveryId).first<Row>();
+  return row ? { ...rowToDelivery(row), payload: String(row.payload) } : null;
+}
+
+/**
+ * Queues the same payload again as a new delivery, keeping the original in the log.
+ */
+export async function insertRedelivery(db: D1Database, original: EventDelivery & { payload: string }): Promise<EventDelivery> {
+  const now = new Date().toISOString();
+  const redelivery: EventDelivery = {
+    id: crypto.randomUUID(),
+    subscriptionId: original.subscriptionId,
+    channelId: original.channelId,
+    eventType: original.eventType,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    redeliveryOf: original.id,
+  };
+
+  await db.prepare(
+    `INSERT INTO event_deliveries (id, subscriptionId, channelId, eventType, payload, status, attempts, nextAttemptAt, createdAt, redeliveryOf)
+     VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)`
+  ).bind(
+    redelivery.id,
+    redelivery.subscriptionId,
+    redelivery.channelId,
+    redelivery.eventType,
+    original.payload,
+    now,
+    now,
+    original.id
+  ).run();
+  return redelivery;
+}
+
+export interface DeliveryFilters {
+  status?: DeliveryStatus;
+  before?: string;
+  limit: number;
+}
+
+/**
+ * Parses delivery log query params. Returns null when the status filter isn't a known one.
+ */
+export function parseDeliveryFilters(params: URLSearchParams): DeliveryFilters | null {
+  const status = params.get('status') || undefined;
+  if (status && !['pending', 'succeeded', 'failed'].includes(status)) return null;
+
+  return {
+    status: status as DeliveryStatus | undefined,
+    before: params.get('before') || undefined,
+    limit: Math.min(Math.max(parseInt(params.get('limit') || '50') || 50, 1), MAX_PAGE_SIZE),
+  };
+}
+
+/**
+ * A subscription's delivery log, newest first. Page backwards by passing the last delivery's createdAt as `before`.
+ */
+export async function listDeliveries(
+  db: D1Database,
+  subscriptionId: string,
+  filters: DeliveryFilters
+): Promise<{ deliveries: EventDelivery[]; hasMore: boolean }> {
+  let query = `SELECT * FROM event_deliveries WHERE subscriptionId = ?`;
+  const params: unknown[] = [subscriptionId];
+
+  if (filters.status) {
+    query += ` AND status = ?`;
+    params.push(filters.status);
+  }
+  if (filters.before) {
+    query += ` AND createdAt < ?`;
+    params.push(filters.before);
+  }
+
+  query += ` ORDER BY createdAt DESC LIMIT ?`;
+  params.push(filters.limit + 1);
+
+  const { results } = await db.prepare(query).bind(...params).all<Row>();
+  return {
+    deliveries: results.slice(0, filters.limit).map(rowToDelivery),
+    hasMore: results.length > filters.limit,
+  };
+}
+
+/**
+ * Drops finished deliveries older than the cutoff from the log.
+ */
+export async function purgeFinishedDeliveries(db: D1Database, cutoff: string): Promise<number> {
+  const result = await db.prepare(
+    `DELETE FROM event_deliveries WHERE status != 'pending' AND createdAt < ?`
+  ).bind(cutoff).run();
+  return result.meta.changes;
+}
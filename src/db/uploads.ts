@@ -0,0 +1,131 @@
+// src/db/uploads.ts
+import { UploadSession } from '../types';
+
+type Row = Record<string, unknown>;
+
+function rowToUploadSession(r: Row): UploadSession {
+  return {
+    id: String(r.id),
+    channelId: String(r.channelId),
+    uploaderId: String(r.uploaderId),
+    r2Key: String(r.r2Key),
+    r2UploadId: String(r.r2UploadId),
+    filename: String(r.filename),
+    contentType: String(r.contentType),
+    size: Number(r.size),
+    partSize: Number(r.partSize),
+    status: String(r.status) as UploadSession['status'],
+    createdAt: String(r.createdAt),
+    expiresAt: String(r.expiresAt),
+  };
+}
+
+export function totalParts(session: UploadSession): number {
+  return Math.max(1, Math.ceil(session.size / session.partSize));
+}
+
+// Every part is partSize bytes except the last, which holds the remainder
+export function expectedPartSize(session: UploadSession, partNumber: number): number {
+  return partNumber < totalParts(session) ? session.partSize : session.size - session.partSize * (partNumber - 1);
+}
+
+export async function insertUploadSession(db: D1Database, session: UploadSession): Promise<void> {
+  await db.prepare(
+    `INSERT INTO upload_sessions (id, channelId, uploaderId, r2Key, r2UploadId, filename, contentType, size, partSize, status, createdAt, expiresAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    session.id,
+    session.channelId,
+    session.uploaderId,
+    session.r2Key,
+    session.r2UploadId,
+    session.filename,
+    session.contentType,
+    session.size,
+    session.partSize,
+    session.status,
+    session.createdAt,
+    session.expiresAt
+  ).run();
+}
+
+export async function getUploadSession(db: D1Database, uploadId: string): Promise<UploadSession | null> {
+  const row = await db.prepare(`SELECT * FROM upload_sessions WHERE id = ?`).bind(uploadId).first<Row>();
+  return row ? rowToUploadSession(row) : null;
+}
+
+export async function listUploadedParts(db: D1Database, uploadId: string): Promise<R2UploadedPart[]> {
+  const { results } = await db.prepare(
+    `SELECT partNumber, etag FROM upload_parts WHERE uploadId = ? ORDER BY partNumber`
+  ).bind(uploadId).all<R2UploadedPart>();
+  return results;
+}
+
+/**
+ * Records a part that landed in R2. Re-sending a part replaces it, so a client unsure
+ * whether a part made it can simply send it again.
+ */
+export async function recordUploadedPart(db: D1Database, uploadId: string, part: R2UploadedPart, size: number): Promise<void> {
+  await db.prepare(
+    `INSERT OR REPLACE INTO upload_parts (uploadId, partNumber, etag, size) VALUES (?, ?, ?, ?)`
+  ).bind(uploadId, part.partNumber, part.etag, size).run();
+}
+
+/**
+ * Moves a session between active and completing. Returns false when it wasn't in the expected state,
+ * i.e. another request got there first.
+ */
+export async function setUploadStatus(
+  db: D1Database,
+  uploadId: string,
+  from: UploadSession['status'],
+  to: UploadSession['status']
+): Promise<boolean> {
+  const result = await db.prepare(
+    `UPDATE upload_sessions SET status = ? WHERE id = ? AND status = ?`
+  ).bind(to, uploadId, from).run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Statements that forget a session and its parts; batch them with whatever finishes it.
+ */
+export function uploadSessionDeletes(db: D1Database, uploadId: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`DELETE FROM upload_parts WHERE uploadId = ?`).bind(uploadId),
+    db.prepare(`DELETE FROM upload_sessions WHERE id = ?`).bind(uploadId),
+  ];
+}
+
+/**
+ * What counts against a user's upload quota: bytes uploaded since `since`, plus the declared size
+ * of uploads still in progress, and how many of those there are.
+ */
+export async function getUploadUsage(
+  db: D1Database,
+  userId: string,
+  since: string
+): Promise<{ bytes: number; activeUploads: number }> {
+  const [uploaded, pending] = await db.batch([
+    db.prepare(
+      `SELECT COALESCE(SUM(size), 0) as bytes FROM attachments WHERE uploaderId = ? AND createdAt > ?`
+    ).bind(userId, since),
+    db.prepare(
+      `SELECT COALESCE(SUM(size), 0) as bytes, COUNT(*) as count FROM upload_sessions WHERE uploaderId = ?`
+    ).bind(userId),
+  ]);
+  const uploadedRow = (uploaded.results as Row[])[0];
+  const pendingRow = (pending.results as Row[])[0];
+
+  return {
+    bytes: Number(uploadedRow?.bytes || 0) + Number(pendingRow?.bytes || 0),
+    activeUploads: Number(pendingRow?.count || 0),
+  };
+}
+
+export async function findExpiredUploadSessions(db: D1Database, now: string, limit: number): Promise<UploadSession[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM upload_sessions WHERE expiresAt < ? LIMIT ?`
+  ).bind(now, limit).all<Row>();
+  return results.map(rowToUploadSession);
+}
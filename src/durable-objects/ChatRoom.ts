@@ -1,5 +1,48 @@
 // src/durable-objects/ChatRoom.ts
-import { Message, ChannelMember, WSMessage } from '../types';
+import {
+  Message, ChannelMember, ChannelRole, Channel, WSMessage, WSResponse, ReadPosition, UnreadSummary, PinnedMessage, AuditAction,
+  ScheduledMessage, AttachmentRecord, MessageAuthorType, MessageSender, EventSubscription, SubscribableEvent,
+  Bot, SlashCommand, Poll, PollInput
+} from '../types';
+import { hasRole, outranks, isChannelRole, ModerationError } from '../permissions';
+import { HttpError, readJson } from '../http';
+import { RateLimiter, BucketConfig } from '../rateLimiter';
+import { markRead, getChannelReads, getUnreadSummary } from '../db/reads';
+import { canManageChannel, getChannel, getChannelAccess, MAX_TOPIC_LENGTH } from '../db/clans';
+import { getPins, pinMessage, unpinMessage, MAX_PINS_PER_CHANNEL } from '../db/pins';
+import { hydrateMessages, relationInserts, revisionInsert, findMessage, getThreadSummary, MAX_PAGE_SIZE } from '../db/messages';
+import { auditInsert, NewAuditEntry } from '../db/audit';
+import { findSendableAttachments, linkAttachments, toAttachment } from '../db/attachments';
+import {
+  SUBSCRIBABLE_EVENTS,
+  deliveryInserts,
+  findChannelSubscriptions,
+  findDueDeliveries,
+  nextPendingDeliveryAt,
+  recordDeliveryAttempt,
+} from '../db/subscriptions';
+import { abandonedDelivery, sendDelivery } from '../eventDelivery';
+import { findClanCommand, listClanCommands } from '../db/integrations';
+import {
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  closePoll,
+  getPoll,
+  getUserPollVotes,
+  pollInsert,
+  setPollVotes,
+} from '../db/polls';
+import {
+  BUILTIN_COMMANDS,
+  COMMAND_NAME_PATTERN,
+  CommandError,
+  ParsedCommand,
+  parseCommand,
+  parsePollCommand,
+  parseDuration,
+  rollDice,
+  sendBotCommand,
+} from '../commands';
 
 export interface Env {
   CHAT_ROOMS: DurableObjectNamespace;
@@ -10,81 +53,280 @@ export interface Env {
   DB: D1Database;
 }
 
+interface Session {
+  id: string;
+  userId: string;
+  webSocket: WebSocket;
+}
+
+// Serialized onto each hibernatable socket so sessions survive eviction
+interface SessionAttachment {
+  id: string;
+  userId: string;
+}
+
+const TYPING_TIMEOUT_MS = 3000;
+const MAX_REACTION_LENGTH = 64;
+const MAX_MUTE_SECONDS = 28 * 24 * 60 * 60;
+// Close codes sent to sockets removed by a moderator
+const CLOSE_KICKED = 4001;
+const CLOSE_BANNED = 4003;
+const CLOSE_REMOVED = 4002;
+const CLOSE_CHANNEL_DELETED = 4004;
+const MAX_SLOW_MODE_SECONDS = 6 * 60 * 60;
+
+// Actions that change channel content, refused once a channel is archived
+const WRITE_ACTIONS: WSMessage['type'][] = [
+  'send_message', 'edit_message', 'delete_message', 'reaction_add', 'reaction_remove', 'pin_message', 'unpin_message',
+  'schedule_message', 'edit_scheduled', 'poll_vote', 'poll_close'
+];
+
+// Audit log action for each moderation WS action
+const MODERATION_AUDIT_ACTIONS: Partial<Record<WSMessage['type'], AuditAction>> = {
+  kick_user: 'member_kicked',
+  mute_user: 'member_muted',
+  unmute_user: 'member_unmuted',
+  ban_user: 'member_banned',
+  unban_user: 'member_unbanned',
+  set_role: 'member_role_updated',
+};
+
+// Moderation action behind each moderation slash command
+const COMMAND_MODERATION_ACTIONS: Record<string, WSMessage['type']> = {
+  kick: 'kick_user',
+  mute: 'mute_user',
+  unmute: 'unmute_user',
+  ban: 'ban_user',
+  unban: 'unban_user',
+};
+
+// Per-user token buckets for the message types that are cheap to spam but costly to fan out
+const RATE_LIMITS: Partial<Record<WSMessage['type'], BucketConfig>> = {
+  send_message: { capacity: 5, refillPerSecond: 1 },
+  edit_message: { capacity: 5, refillPerSecond: 0.5 },
+  typing_start: { capacity: 3, refillPerSecond: 0.5 },
+  reaction_add: { capacity: 10, refillPerSecond: 2 },
+  mark_read: { capacity: 10, refillPerSecond: 2 },
+  schedule_message: { capacity: 5, refillPerSecond: 0.2 },
+  poll_vote: { capacity: 5, refillPerSecond: 1 },
+};
+// How many recent send localIds we remember for deduplicating client retries
+const MAX_RECENT_SENDS = 500;
+
+// Events kept for replay on reconnect; clients further behind must resync
+const MAX_EVENT_LOG = 1000;
+const EVENT_KEY_PREFIX = 'event:';
+// Durable Object storage takes at most this many keys per get/put/delete
+const MAX_STORAGE_KEYS_PER_CALL = 128;
+
+// A send we accepted: the message it created, or the answer to a command that posted nothing
+type RecentSend =
+  | { messageId: string; timestamp: string }
+  | { response: CommandResponse };
+
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Validated content of a send, ready to be stored
+interface PostableMessage {
+  content: string;
+  attachments: AttachmentRecord[];
+  poll?: Poll;
+  // REST sends: the name, avatar and author type to post under instead of the member's own
+  sender?: MessageSender;
+}
+
+// What a slash command produced: text to post as the invoker's message, or a reply only they see
+interface CommandResult {
+  post?: string;
+  // Makes the post a poll
+  poll?: PollInput;
+  reply?: string;
+  // Set when a bot ran the command
+  botId?: string;
+}
+
+// The answer to a slash command, shown only to the sender
+interface CommandResponse {
+  command: string;
+  content?: string;
+  botId?: string;
+}
+
+// A send once its slash command has run: the message to post, or an answer only the sender sees
+type DispatchedSend = { message: WSMessage } | CommandResponse;
+
+// Scheduled messages and reminders are stored one per key, since their content can be long
+const SCHEDULED_KEY_PREFIX = 'scheduled:';
+const MAX_SCHEDULED_PER_USER = 25;
+const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Outgoing webhooks: subscriptions are re-read this often, and one alarm sends at most this many deliveries
+const SUBSCRIPTION_CACHE_MS = 60 * 1000;
+const MAX_DELIVERIES_PER_ALARM = 50;
+// When D1 itself fails, try the delivery queue (or closing a due poll) again after this long
+const DELIVERY_ERROR_RETRY_MS = 60 * 1000;
+
+// A send or schedule request that was refused; details (e.g. slow mode retryAfter) go back with the error
+class SendRejectedError extends HttpError {
+  details?: { code: string; retryAfter?: number };
+
+  constructor(message: string, details?: { code: string; retryAfter?: number }, status: number = 400) {
+    super(message, status);
+    this.name = 'SendRejectedError';
+    this.details = details;
+  }
+}
+
+// The message a logged event is about, if any: its own message, or the root for thread updates
+function eventMessageId(event: any): string | undefined {
+  return event.message?.id ?? event.messageId ?? (event.type === 'thread_updated' ? event.threadId : undefined);
+}
+
+// Clients send JSON; reject fields of the wrong type before anything calls string or array methods on them
+function assertSendFields(message: WSMessage): void {
+  for (const field of ['content', 'threadId', 'replyTo'] as const) {
+    if (message[field] != null && typeof message[field] !== 'string') {
+      throw new SendRejectedError(`${field} must be a string`);
+    }
+  }
+  for (const field of ['attachments', 'mentions'] as const) {
+    if (message[field] != null && !Array.isArray(message[field])) {
+      throw new SendRejectedError(`${field} must be an array`);
+    }
+  }
+}
+
 export class ChatRoom {
   private state: DurableObjectState;
   private env: Env;
-  private sessions: Map<string, WebSocket> = new Map();
+  // Keyed by connection id; a user may have several connections (one per device)
+  private sessions: Map<string, Session> = new Map();
   private members: Map<string, ChannelMember> = new Map();
   private messages: Message[] = [];
-  private typingUsers: Set<string> = new Set();
+  // userId -> time the typing indicator expires; persisted so an alarm can clear it after a wake-up
+  private typingUsers: Map<string, number> = new Map();
   private channelId: string = '';
-  private typingTimeouts: Map<string, number> = new Map();
+  // Channel settings from D1, refreshed by the worker when they change
+  private channel: Channel | null = null;
+  // `${userId}:${localId}` -> the message that send created, oldest first
+  private recentSends: Map<string, RecentSend> = new Map();
+  // Sequence number of the last published event
+  private seq: number = 0;
+  private rateLimiter = new RateLimiter();
+  // 0 disables slow mode; moderators and above are exempt
+  private slowModeSeconds: number = 0;
+  // userId -> when they last posted; persisted so slow mode still holds after the room is evicted
+  private lastMessageAt: Map<string, number> = new Map();
+  private scheduled: Map<string, ScheduledMessage> = new Map();
+  private subscriptions: { list: EventSubscription[]; loadedAt: number } | null = null;
+  // When the next outgoing webhook delivery is due; null when none is pending
+  private nextDeliveryAt: number | null = null;
+  // Poll messageId -> when it closes, for polls with a close time that are still open
+  private pollCloses: Map<string, number> = new Map();
+  // Poll messageId -> when to try closing it again after a failure; not persisted, a restarted room just tries again
+  private pollCloseRetries: Map<string, number> = new Map();
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
 
+    // Answer heartbeats without waking the object
+    state.setWebSocketAutoResponse(
+      new WebSocketRequestResponsePair(JSON.stringify({ type: 'ping' }), JSON.stringify({ type: 'pong' }))
+    );
+
+    // Rebuild sessions from sockets that stayed connected while we were hibernating
+    for (const webSocket of state.getWebSockets()) {
+      const attachment = webSocket.deserializeAttachment() as SessionAttachment | null;
+      if (attachment) {
+        this.sessions.set(attachment.id, { ...attachment, webSocket });
+      }
+    }
+
     state.blockConcurrencyWhile(async () => {
       const storedMessages = await state.storage.get<Message[]>('messages');
       const storedChannelId = await state.storage.get<string>('channelId');
       const storedMembers = await state.storage.get<Map<string, ChannelMember>>('members');
+      const storedTyping = await state.storage.get<[string, number][]>('typing');
+      const storedRecentSends = await state.storage.get<[string, RecentSend][]>('recentSends');
+      const storedSeq = await state.storage.get<number>('seq');
+      const storedSlowMode = await state.storage.get<number>('slowModeSeconds');
+      const storedLastMessageAt = await state.storage.get<[string, number][]>('lastMessageAt');
+      const storedChannel = await state.storage.get<Channel>('channel');
+      const storedScheduled = await state.storage.list<ScheduledMessage>({ prefix: SCHEDULED_KEY_PREFIX });
+      const storedNextDeliveryAt = await state.storage.get<number>('nextDeliveryAt');
+      const storedPollCloses = await state.storage.get<[string, number][]>('pollCloses');
 
       if (storedChannelId) this.channelId = storedChannelId;
       if (storedMembers) this.members = new Map(storedMembers);
+      if (storedTyping) this.typingUsers = new Map(storedTyping);
+      if (storedRecentSends) this.recentSends = new Map(storedRecentSends);
+      if (storedSeq) this.seq = storedSeq;
+      if (storedSlowMode) this.slowModeSeconds = storedSlowMode;
+      if (storedLastMessageAt) this.lastMessageAt = new Map(storedLastMessageAt);
+      if (storedChannel) this.channel = storedChannel;
+      for (const item of storedScheduled.values()) this.scheduled.set(item.id, item);
+      if (storedNextDeliveryAt) this.nextDeliveryAt = storedNextDeliveryAt;
+      if (storedPollCloses) this.pollCloses = new Map(storedPollCloses);
 
       if (storedMessages?.length) {
         this.messages = storedMessages;
       } else if (this.channelId) {
-        // Load from D1 database
-        try {
-          const { results } = await env.DB.prepare(
-            `SELECT * FROM messages WHERE channelId = ? AND deleted = 0 ORDER BY timestamp DESC LIMIT 50`
-          ).bind(this.channelId).all();
-
-          this.messages = (results.reverse() as Record<string, unknown>[]).map((r) => ({
-            id: String(r.id),
-            channelId: String(r.channelId),
-            userId: String(r.userId),
-            content: String(r.content),
-            timestamp: String(r.timestamp),
-            edited: !!r.edited,
-            editedAt: r.editedAt ? String(r.editedAt) : undefined,
-            deleted: false,
-            threadId: r.threadId ? String(r.threadId) : undefined,
-            replyTo: r.replyTo ? String(r.replyTo) : undefined,
-            attachments: [],
-            reactions: {},
-            user: {
-              uid: String(r.userId),
-              username: String(r.username || 'User'),
-              profileImage: String(r.profileImage || '')
-            },
-            mentions: []
-          }));
-
-          await state.storage.put('messages', this.messages);
-        } catch (error) {
-          console.error('Error loading messages from D1:', error);
-          this.messages = [];
-        }
+        await this.loadRecentMessages();
       }
     });
   }
 
+  private async loadRecentMessages(): Promise<void> {
+    // Load from D1 database
+    try {
+      const { results } = await this.env.DB.prepare(
+        `SELECT * FROM messages WHERE channelId = ? AND deleted = 0 AND threadId IS NULL ORDER BY timestamp DESC LIMIT 50`
+      ).bind(this.channelId).all();
+
+      this.messages = await hydrateMessages(this.env.DB, results.reverse(), this.members);
+
+      await this.state.storage.put('messages', this.messages);
+    } catch (error) {
+      console.error('Error loading messages from D1:', error);
+      this.messages = [];
+    }
+  }
+
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
+
+    // The worker names the channel on every request; a new room remembers it once
+    const channelId = request.headers.get('X-Channel-Id');
+    if (channelId && !this.channelId) {
+      await this.setChannelId(channelId);
+    }
+
     if (url.pathname === '/websocket') return this.handleWebSocket(request);
-    if (url.pathname === '/messages') return this.getMessages(request);
-    if (url.pathname === '/set-channel-id') {
-      const body = await request.json() as { channelId: string };
-      await this.setChannelId(body.channelId);
+    if (url.pathname === '/messages') return request.method === 'POST' ? this.handlePostRequest(request) : this.getMessages(request);
+    const threadMatch = url.pathname.match(/^\/threads\/([^\/]+)\/messages$/);
+    if (threadMatch) return this.getMessages(request, decodeURIComponent(threadMatch[1]));
+    if (url.pathname === '/pins') return this.getPinsResponse();
+    const scheduledMatch = url.pathname.match(/^\/scheduled(?:\/([^\/]+))?$/);
+    if (scheduledMatch) return this.handleScheduledRequest(request, scheduledMatch[1] && decodeURIComponent(scheduledMatch[1]));
+    if (url.pathname === '/moderation' && request.method === 'POST') return this.handleModerationRequest(request);
+    if (url.pathname === '/read' && request.method === 'POST') return this.handleReadRequest(request);
+    if (url.pathname === '/channel-updated' && request.method === 'POST') return this.handleChannelUpdated(request);
+    if (url.pathname === '/channel-deleted' && request.method === 'POST') return this.handleChannelDeleted();
+    if (url.pathname === '/membership' && request.method === 'POST') return this.handleMembershipChange(request);
+    if (url.pathname === '/purged' && request.method === 'POST') return this.handlePurged(request);
+    if (url.pathname === '/deliveries' && request.method === 'POST') {
+      // A manual redelivery was queued
+      await this.wakeForDeliveries(Date.now());
       return new Response('OK');
     }
     if (url.pathname === '/debug') {
       return new Response(JSON.stringify({
         channelId: this.channelId,
         messagesInMemory: this.messages.length,
-        connectedUsers: this.sessions.size,
+        connectedUsers: this.getOnlineUserIds().length,
+        connections: this.sessions.size,
+        seq: this.seq,
         members: Array.from(this.members.keys())
       }), {
         headers: { 'Content-Type': 'application/json' }
@@ -95,10 +337,13 @@ export class ChatRoom {
 
   private async handleWebSocket(request: Request): Promise<Response> {
     const url = new URL(request.url);
-    const token = url.searchParams.get('token');
+    // Identity params are set by the worker from the verified token claims
     const userId = url.searchParams.get('userId');
     const username = url.searchParams.get('username') || 'User';
     const profileImage = url.searchParams.get('profileImage') || '';
+    // Last event sequence number the client saw, if it is resuming
+    const sinceParam = url.searchParams.get('since');
+    const since = sinceParam !== null && /^\d+$/.test(sinceParam) ? parseInt(sinceParam) : null;
 
     console.log('🔐 WebSocket connection attempt:', { userId, username });
 
@@ -107,35 +352,112 @@ export class ChatRoom {
       return new Response('Unauthorized', { status: 401 });
     }
 
-    // Store user info
-    if (!this.members.has(userId)) {
-      this.members.set(userId, {
-        id: userId,
-        username: decodeURIComponent(username),
-        avatar: decodeURIComponent(profileImage),
-        status: 'online'
-      });
-      await this.state.storage.put('members', Array.from(this.members.entries()));
+    try {
+      if (await this.isBanned(userId)) {
+        console.warn('🚫 Banned user rejected:', userId);
+        return new Response('Banned from this channel', { status: 403 });
+      }
+
+      // Store user info and role
+      await this.loadMember(userId, username, profileImage);
+    } catch (error) {
+      console.error('Error loading membership:', error);
+      return new Response('Internal server error', { status: 500 });
     }
 
     console.log('✅ User authenticated, creating WebSocket');
 
     const webSocketPair = new WebSocketPair();
     const [client, server] = Object.values(webSocketPair);
-    server.accept();
-    this.handleSession(server, userId);
+    // Tag with the user so getWebSockets(userId) finds all of their devices
+    this.state.acceptWebSocket(server, [userId]);
+    await this.handleSession(server, userId, since);
     return new Response(null, { status: 101, webSocket: client });
   }
 
-  async getMessages(request: Request): Promise<Response> {
+  async webSocketMessage(webSocket: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    const session = this.getSession(webSocket);
+    if (!session) return;
+
+    try {
+      const messageData = typeof data === 'string' ? data : new TextDecoder().decode(data);
+      const message = JSON.parse(messageData) as WSMessage;
+      console.log('📨 Received message:', message.type, 'from:', session.userId);
+      await this.handleMessage(message, session);
+    } catch (error) {
+      console.error('Error handling message:', error);
+      this.sendToSession(session, {
+        type: 'error',
+        message: 'Invalid message format'
+      });
+    }
+  }
+
+  async webSocketClose(webSocket: WebSocket, code: number, reason: string): Promise<void> {
+    const session = this.getSession(webSocket);
+    console.log('👋 User disconnected:', session?.userId, session?.id);
+    if (session) await this.handleDisconnect(session.id);
+
+    try {
+      webSocket.close(code, reason);
+    } catch {
+      // Reserved close codes (1005/1006) can't be echoed back; the socket is gone either way
+    }
+  }
+
+  async webSocketError(webSocket: WebSocket, error: unknown): Promise<void> {
+    console.error('WebSocket error:', error);
+    const session = this.getSession(webSocket);
+    if (session) await this.handleDisconnect(session.id);
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    for (const [userId, expiresAt] of this.typingUsers) {
+      if (expiresAt <= now) {
+        await this.handleTypingStop(userId);
+      }
+    }
+
+    const dueItems = Array.from(this.scheduled.values())
+      .filter(item => !item.due && Date.parse(item.sendAt) <= now)
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+    for (const item of dueItems) {
+      await this.deliverScheduled(item);
+    }
+
+    for (const [messageId, closesAt] of this.pollCloses) {
+      if (this.pollCloseDueAt(messageId, closesAt) <= now) {
+        await this.closeDuePoll(messageId, closesAt);
+      }
+    }
+
+    if (this.nextDeliveryAt !== null && this.nextDeliveryAt <= now) {
+      await this.deliverDueEvents();
+    }
+
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Pages through the main timeline, or through one thread's replies when threadId is given.
+   */
+  async getMessages(request: Request, threadId?: string): Promise<Response> {
     const url = new URL(request.url);
-    const limit = parseInt(url.searchParams.get('limit') || '50');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50') || 50, MAX_PAGE_SIZE);
     const before = url.searchParams.get('before');
 
     // First try to get from D1, then fall back to simpler query
     let query = `SELECT * FROM messages WHERE channelId = ? AND deleted = 0`;
     const params: any[] = [this.channelId];
 
+    if (threadId) {
+      query += ` AND threadId = ?`;
+      params.push(threadId);
+    } else {
+      query += ` AND threadId IS NULL`;
+    }
+
     if (before) {
       query += ` AND timestamp < ?`;
       params.push(before);
@@ -147,29 +469,20 @@ export class ChatRoom {
     try {
       const { results } = await this.env.DB.prepare(query).bind(...params).all();
 
-      const messages: Message[] = (results.reverse() as Record<string, unknown>[]).map((r) => {
-        const member = this.members.get(String(r.userId));
-        return {
-          id: String(r.id),
-          channelId: String(r.channelId),
-          userId: String(r.userId),
-          content: String(r.content),
-          timestamp: String(r.timestamp),
-          edited: !!r.edited,
-          editedAt: r.editedAt ? String(r.editedAt) : undefined,
-          deleted: !!r.deleted,
-          threadId: r.threadId ? String(r.threadId) : undefined,
-          replyTo: r.replyTo ? String(r.replyTo) : undefined,
-          attachments: [],
-          reactions: {},
-          user: {
-            uid: String(r.userId),
-            username: String(r.username || member?.username || 'User'),
-            profileImage: String(r.profileImage || member?.avatar || '')
-          },
-          mentions: []
-        };
-      });
+      const messages = await hydrateMessages(this.env.DB, results.reverse(), this.members);
+
+      if (threadId) {
+        const root = await this.getMessage(threadId);
+        if (!root) {
+          return new Response(JSON.stringify({ error: 'Thread not found' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify({ root, messages }), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
 
       return new Response(JSON.stringify({ messages }), {
         headers: { 'Content-Type': 'application/json' },
@@ -186,315 +499,1398 @@ export class ChatRoom {
   async setChannelId(channelId: string): Promise<void> {
     this.channelId = channelId;
     await this.state.storage.put('channelId', channelId);
+    if (this.messages.length === 0) {
+      await this.loadRecentMessages();
+    }
   }
 
-  private handleSession(webSocket: WebSocket, userId: string) {
-    console.log('👤 New session for user:', userId);
-    this.sessions.set(userId, webSocket);
+  /**
+   * Returns the channel settings, loading them from D1 the first time.
+   */
+  private async getChannelInfo(): Promise<Channel | null> {
+    if (!this.channel && this.channelId) {
+      this.channel = await getChannel(this.env.DB, this.channelId);
+      if (this.channel) await this.state.storage.put('channel', this.channel);
+    }
+    return this.channel;
+  }
 
-    const member = this.members.get(userId);
-    
-    // Set up ping interval for this connection
-    const pingInterval = setInterval(() => {
-      if (webSocket.readyState === WebSocket.READY_STATE_OPEN) {
-        try {
-          webSocket.send(JSON.stringify({ type: 'ping' }));
-        } catch (error) {
-          console.error('Failed to send ping to', userId);
-          clearInterval(pingInterval);
-        }
-      } else {
-        clearInterval(pingInterval);
+  private async handleChannelUpdated(request: Request): Promise<Response> {
+    const { channel, actorId } = await request.json() as { channel: Channel; actorId?: string };
+    this.channel = channel;
+    await this.state.storage.put('channel', channel);
+    await this.publish({ type: 'channel_updated', channel, actorId });
+    return new Response('OK');
+  }
+
+  /**
+   * The channel is gone: tell everyone, disconnect them and wipe the room's storage.
+   */
+  private async handleChannelDeleted(): Promise<Response> {
+    this.broadcast({ type: 'channel_deleted', channelId: this.channelId });
+    for (const session of this.sessions.values()) {
+      try {
+        session.webSocket.close(CLOSE_CHANNEL_DELETED, 'Channel deleted');
+      } catch (error) {
+        console.error('Error closing socket:', error);
       }
-    }, 30000);
+    }
 
-    // Send initial messages to the new user
-    this.sendToUser(userId, {
-      type: 'init',
-      messages: this.messages
-    });
+    this.sessions.clear();
+    this.members.clear();
+    this.messages = [];
+    this.typingUsers.clear();
+    this.recentSends.clear();
+    this.seq = 0;
+    this.slowModeSeconds = 0;
+    this.lastMessageAt.clear();
+    this.scheduled.clear();
+    this.subscriptions = null;
+    this.nextDeliveryAt = null;
+    this.pollCloses.clear();
+    this.pollCloseRetries.clear();
+    this.channel = null;
+    this.channelId = '';
+    await this.state.storage.deleteAlarm();
+    await this.state.storage.deleteAll();
+    return new Response('OK');
+  }
+
+  /**
+   * Messages hard-deleted by the retention job: drop them from the cache and tell clients.
+   */
+  private async handlePurged(request: Request): Promise<Response> {
+    const { messageIds } = await request.json() as { messageIds: string[] };
+    const purged = new Set(messageIds);
+
+    this.messages = this.messages.filter(m => !purged.has(m.id));
+    await this.state.storage.put('messages', this.messages);
+    for (const messageId of messageIds) {
+      await this.forgetPollClose(messageId);
+    }
+
+    // Replaying the log would otherwise hand purged messages back to reconnecting clients
+    const events = await this.state.storage.list<any>({ prefix: EVENT_KEY_PREFIX });
+    const stale = Array.from(events).filter(([, event]) => purged.has(eventMessageId(event) ?? '')).map(([key]) => key);
+    for (let i = 0; i < stale.length; i += MAX_STORAGE_KEYS_PER_CALL) {
+      await this.state.storage.delete(stale.slice(i, i + MAX_STORAGE_KEYS_PER_CALL));
+    }
+
+    await this.publish({ type: 'messages_purged', messageIds });
+    return new Response('OK');
+  }
+
+  /**
+   * Membership changes made outside the room (REST member management, invites).
+   * Removed users are disconnected; both cases are announced to the channel.
+   */
+  private async handleMembershipChange(request: Request): Promise<Response> {
+    const { action, userId, actorId, username, profileImage } = await request.json() as {
+      action: 'added' | 'removed';
+      userId: string;
+      actorId?: string;
+      username?: string;
+      profileImage?: string;
+    };
+
+    if (action === 'removed') {
+      await this.publish({ type: 'member_removed', userId, actorId });
+      await this.closeUserSockets(userId, CLOSE_REMOVED, 'Removed from channel');
+      await this.dropUserScheduled(userId);
+      this.members.delete(userId);
+      await this.state.storage.put('members', Array.from(this.members.entries()));
+    } else {
+      const member = await this.loadMember(userId, username || 'User', profileImage || '');
+      member.status = this.isOnline(userId) ? 'online' : 'offline';
+      await this.publish({
+        type: 'member_added',
+        userId,
+        actorId,
+        user: {
+          uid: userId,
+          username: member.username,
+          profileImage: member.avatar,
+          role: member.role
+        }
+      });
+    }
+    return new Response('OK');
+  }
+
+  private async handleSession(webSocket: WebSocket, userId: string, since: number | null): Promise<void> {
+    const isFirstConnection = !this.isOnline(userId);
+    const session: Session = { id: crypto.randomUUID(), userId, webSocket };
+    console.log('👤 New session for user:', userId, session.id);
+    webSocket.serializeAttachment({ id: session.id, userId });
+    this.sessions.set(session.id, session);
+
+    const member = this.members.get(userId);
+
+    if (since !== null) {
+      await this.resumeSession(session, since);
+    } else {
+      await this.sendInit(session);
+    }
+    await this.deliverDueReminders(userId);
 
     // Send current online users
-    const onlineUsers = Array.from(this.sessions.keys()).map(uid => {
+    const onlineUsers = this.getOnlineUserIds().map(uid => {
       const m = this.members.get(uid);
       return {
         uid,
         username: m?.username || 'User',
-        profileImage: m?.avatar || ''
+        profileImage: m?.avatar || '',
+        role: m?.role || 'member'
       };
     });
     
-    this.sendToUser(userId, {
+    this.sendToSession(session, {
       type: 'user_list',
       users: onlineUsers
     });
 
-    // Notify other users about new user joining
-    this.broadcast({
-      type: 'user_joined',
-      user: {
-        uid: userId,
-        username: member?.username || 'User',
-        profileImage: member?.avatar || ''
-      }
-    }, userId);
+    // Notify other users about new user joining (only for their first device)
+    if (isFirstConnection) {
+      this.broadcast({
+        type: 'user_joined',
+        user: {
+          uid: userId,
+          username: member?.username || 'User',
+          profileImage: member?.avatar || '',
+          role: member?.role || 'member'
+        }
+      }, userId);
+    }
+  }
 
-    webSocket.addEventListener('message', async (event) => {
-      try {
-        const messageData = typeof event.data === 'string' ? event.data : new TextDecoder().decode(event.data);
-        const message = JSON.parse(messageData) as WSMessage;
-        console.log('📨 Received message:', message.type, 'from:', userId);
-        await this.handleMessage(message, userId);
-      } catch (error) {
-        console.error('Error handling message:', error);
-        this.sendToUser(userId, {
-          type: 'error',
-          message: 'Invalid message format'
-        });
-      }
-    });
+  private async handleMessage(message: WSMessage, session: Session): Promise<void> {
+    const { userId } = session;
 
-    webSocket.addEventListener('close', () => {
-      console.log('👋 User disconnected:', userId);
-      clearInterval(pingInterval);
-      this.handleDisconnect(userId);
-    });
+    const limit = RATE_LIMITS[message.type];
+    if (limit) {
+      const retryAfter = this.rateLimiter.consume(`${userId}:${message.type}`, limit);
+      if (retryAfter > 0) {
+        this.sendError(session, message, 'Rate limit exceeded', { code: 'rate_limited', retryAfter });
+        return;
+      }
+    }
 
-    webSocket.addEventListener('error', (error) => {
-      console.error('WebSocket error:', error);
-      clearInterval(pingInterval);
-      this.handleDisconnect(userId);
-    });
-  }
+    if (WRITE_ACTIONS.includes(message.type) && (await this.getChannelInfo())?.archived) {
+      this.sendError(session, message, 'Channel is archived');
+      return;
+    }
 
-  private async handleMessage(message: WSMessage, userId: string): Promise<void> {
     switch (message.type) {
       case 'send_message':
-        await this.handleSendMessage(message, userId);
+        await this.handleSendMessage(message, session);
         break;
       case 'edit_message':
-        await this.handleEditMessage(message, userId);
+        await this.handleEditMessage(message, session);
         break;
       case 'delete_message':
-        await this.handleDeleteMessage(message, userId);
+        await this.handleDeleteMessage(message, session);
         break;
       case 'typing_start':
-        this.handleTypingStart(userId);
+        await this.handleTypingStart(userId);
         break;
       case 'typing_stop':
-        this.handleTypingStop(userId);
+        await this.handleTypingStop(userId);
         break;
       case 'reaction_add':
-        await this.handleReactionAdd(message, userId);
+        await this.handleReactionAdd(message, session);
         break;
       case 'reaction_remove':
-        await this.handleReactionRemove(message, userId);
+        await this.handleReactionRemove(message, session);
+        break;
+      case 'kick_user':
+      case 'mute_user':
+      case 'unmute_user':
+      case 'ban_user':
+      case 'unban_user':
+      case 'set_role':
+        try {
+          await this.moderate(userId, message);
+        } catch (error) {
+          if (!(error instanceof ModerationError)) console.error('Error applying moderation:', error);
+          this.sendError(session, message, error instanceof ModerationError ? error.message : 'Moderation action failed');
+        }
+        break;
+      case 'mark_read':
+        try {
+          await this.markRead(userId, message.messageId);
+        } catch (error) {
+          if (!(error instanceof HttpError)) console.error('Error marking read:', error);
+          this.sendError(session, message, error instanceof HttpError ? error.message : 'Failed to mark read');
+        }
+        break;
+      case 'pin_message':
+      case 'unpin_message':
+        await this.handlePin(message, session);
+        break;
+      case 'schedule_message':
+      case 'edit_scheduled':
+      case 'cancel_scheduled':
+      case 'list_scheduled':
+        try {
+          await this.handleScheduledAction(userId, message);
+        } catch (error) {
+          if (!(error instanceof SendRejectedError)) console.error('Error handling scheduled message:', error);
+          this.sendError(session, message, error instanceof SendRejectedError ? error.message : 'Scheduled message request failed');
+        }
+        break;
+      case 'set_slow_mode':
+        try {
+          await this.setSlowMode(userId, message.duration);
+        } catch (error) {
+          if (!(error instanceof ModerationError)) console.error('Error setting slow mode:', error);
+          this.sendError(session, message, error instanceof ModerationError ? error.message : 'Failed to set slow mode');
+        }
+        break;
+      case 'poll_vote':
+      case 'poll_close':
+        try {
+          if (message.type === 'poll_vote') {
+            await this.votePoll(userId, message);
+          } else {
+            await this.closePollByUser(userId, message.messageId);
+          }
+        } catch (error) {
+          if (!(error instanceof SendRejectedError)) console.error('Error updating poll:', error);
+          this.sendError(session, message, error instanceof SendRejectedError ? error.message : 'Failed to update poll');
+        }
+        break;
+      case 'list_commands':
+        try {
+          this.sendToSession(session, { type: 'commands_list', commands: await this.listCommands(userId) });
+        } catch (error) {
+          console.error('Error listing commands:', error);
+          this.sendError(session, message, 'Failed to list commands');
+        }
         break;
       case 'ping':
-        // Respond to heartbeat
-        this.sendToUser(userId, { type: 'pong' });
+        // Heartbeats are normally answered by the auto-response; this covers pings with extra fields
+        this.sendToSession(session, { type: 'pong' });
         break;
       default:
         console.warn('Unknown message type:', message.type);
-        this.sendToUser(userId, {
-          type: 'error',
-          message: 'Unknown message type'
-        });
+        this.sendError(session, message, 'Unknown message type');
     }
   }
 
-  private async handleSendMessage(message: WSMessage, userId: string): Promise<void> {
-    const content = message.content?.trim();
-    if (!content || content.length > parseInt(this.env.MAX_MESSAGE_LENGTH)) {
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Message content is invalid or too long'
-      });
+  private async handleSendMessage(message: WSMessage, session: Session): Promise<void> {
+    const { userId } = session;
+
+    // A retry of a send we already accepted: ack it again instead of creating a duplicate
+    const sendKey = message.localId ? `${userId}:${message.localId}` : null;
+    const previousSend = sendKey ? this.recentSends.get(sendKey) : undefined;
+    if (previousSend) {
+      this.sendToSession(session, 'response' in previousSend
+        ? { type: 'command_response', localId: message.localId, ...previousSend.response }
+        : { type: 'message_ack', localId: message.localId, messageId: previousSend.messageId, timestamp: previousSend.timestamp });
       return;
     }
 
-    const messageId = crypto.randomUUID();
-    const timestamp = new Date().toISOString();
-    const member = this.members.get(userId);
-
-    const newMessage: Message = {
-      id: messageId,
-      channelId: this.channelId,
-      userId,
-      content,
-      timestamp,
-      edited: false,
-      deleted: false,
-      threadId: message.threadId,
-      replyTo: message.replyTo,
-      attachments: message.attachments || [],
-      reactions: {},
-      user: {
-        uid: userId,
-        username: member?.username || 'User',
-        profileImage: member?.avatar || ''
-      },
-      mentions: message.mentions || []
-    };
-
-    // Save to database with user info
     try {
-      await this.env.DB.prepare(
-        `INSERT INTO messages (id, channelId, userId, content, timestamp, threadId, replyTo, username, profileImage) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      ).bind(
-        messageId,
-        this.channelId,
-        userId,
-        content,
-        timestamp,
-        message.threadId || null,
-        message.replyTo || null,
-        member?.username || 'User',
-        member?.avatar || ''
-      ).run();
-
-      // Add to in-memory cache
-      this.messages.push(newMessage);
-      if (this.messages.length > 100) {
-        this.messages = this.messages.slice(-50);
+      const dispatched = await this.dispatchCommand(userId, message, sendKey);
+      if ('command' in dispatched) {
+        this.sendToUser(userId, { type: 'command_response', localId: message.localId, ...dispatched });
+        return;
       }
-
-      // Update storage
-      await this.state.storage.put('messages', this.messages);
-
-      // Broadcast to all connected users
-      this.broadcast({
-        type: 'new_message',
-        message: newMessage
+      message = dispatched.message;
+
+      const validated = await this.assertCanPost(userId, message, true);
+      await this.postMessage(userId, message, validated, sendKey, (posted) => {
+        // Let the sender match its pending bubble to the stored message
+        this.sendToSession(session, {
+          type: 'message_ack',
+          localId: message.localId,
+          messageId: posted.id,
+          timestamp: posted.timestamp
+        });
       });
-
-      // Stop typing indicator for the sender
-      this.handleTypingStop(userId);
-      
     } catch (error) {
+      if (error instanceof SendRejectedError) {
+        this.sendError(session, message, error.message, error.details);
+        return;
+      }
+      if (error instanceof CommandError || error instanceof ModerationError) {
+        this.sendError(session, message, error.message);
+        return;
+      }
       console.error('Error saving message:', error);
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Failed to send message'
-      });
+      this.sendError(session, message, 'Failed to send message');
     }
   }
 
-  private async handleEditMessage(message: WSMessage, userId: string): Promise<void> {
-    const messageId = message.messageId;
-    const newContent = message.content?.trim();
-    
-    if (!messageId || !newContent) {
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Invalid edit request'
-      });
-      return;
+  /**
+   * Slash commands run before anything is stored, whichever way the message arrived; `//text` posts `/text`.
+   * Returns the message to post, or the command's answer for the sender alone when there is nothing to post.
+   * A command that posts nothing is remembered under sendKey, so a retry gets its answer again instead of rerunning it.
+   * Throws CommandError, ModerationError or SendRejectedError.
+   */
+  private async dispatchCommand(userId: string, message: WSMessage, sendKey: string | null): Promise<DispatchedSend> {
+    assertSendFields(message);
+    const command = parseCommand(message.content);
+    if (!command) {
+      return message.content?.trimStart().startsWith('//')
+        ? { message: { ...message, content: message.content.trimStart().slice(1) } }
+        : { message };
     }
 
-    // Find message in cache
-    const messageIndex = this.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1 || this.messages[messageIndex].userId !== userId) {
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Message not found or unauthorized'
-      });
-      return;
+    // Claim the localId before running anything, as postMessage does
+    if (sendKey) {
+      this.recentSends.set(sendKey, { response: { command: command.name } });
     }
-
-    const editedAt = new Date().toISOString();
-
+    let result: CommandResult;
     try {
-      // Update database
-      await this.env.DB.prepare(
-        `UPDATE messages SET content = ?, edited = 1, editedAt = ? WHERE id = ? AND userId = ?`
-      ).bind(newContent, editedAt, messageId, userId).run();
-
-      // Update cache
-      this.messages[messageIndex].content = newContent;
-      this.messages[messageIndex].edited = true;
-      this.messages[messageIndex].editedAt = editedAt;
+      result = await this.runCommand(userId, command, message);
+    } catch (error) {
+      if (sendKey) this.recentSends.delete(sendKey);
+      throw error;
+    }
 
-      await this.state.storage.put('messages', this.messages);
+    if (result.post === undefined) {
+      const response: CommandResponse = { command: command.name, content: result.reply, botId: result.botId };
+      if (sendKey) {
+        this.recentSends.set(sendKey, { response });
+        await this.rememberSend();
+      }
+      return response;
+    }
+    // postMessage claims the localId again for the message it creates
+    if (sendKey) this.recentSends.delete(sendKey);
+    return { message: { ...message, content: result.post, poll: result.poll } };
+  }
 
-      // Broadcast edit
-      this.broadcast({
-        type: 'message_edited',
-        message: this.messages[messageIndex]
-      });
+  /**
+   * Runs a slash command for userId. Throws CommandError, ModerationError or SendRejectedError.
+   */
+  private async runCommand(userId: string, { name, args }: ParsedCommand, message: WSMessage): Promise<CommandResult> {
+    const builtin = BUILTIN_COMMANDS.find(c => c.name === name);
+    if (!builtin) {
+      return this.runBotCommand(userId, name, args, message);
+    }
+    if (builtin.minRole && !hasRole(await this.getRole(userId), builtin.minRole)) {
+      throw new CommandError('Insufficient permissions', 403);
+    }
 
-    } catch (error) {
-      console.error('Error editing message:', error);
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Failed to edit message'
-      });
+    switch (name) {
+      case 'me':
+        if (!args) throw new CommandError(`Usage: ${builtin.usage}`);
+        return { post: `*${args}*` };
+      case 'shrug':
+        return { post: args ? `${args} ¯\\_(ツ)_/¯` : '¯\\_(ツ)_/¯' };
+      case 'roll':
+        return { post: rollDice(args) };
+      case 'poll': {
+        const poll = parsePollCommand(args);
+        return { post: poll.question, poll };
+      }
+      case 'topic':
+        return this.runTopicCommand(userId, args);
+      case 'slowmode': {
+        const seconds = args.toLowerCase() === 'off' ? 0 : parseDuration(args);
+        if (seconds === null) throw new CommandError(`Usage: ${builtin.usage}`);
+        await this.setSlowMode(userId, seconds);
+        return {};
+      }
+      default:
+        return this.runModerationCommand(userId, builtin, args, message.mentions);
     }
   }
 
-  private async handleDeleteMessage(message: WSMessage, userId: string): Promise<void> {
-    const messageId = message.messageId;
-    
-    if (!messageId) {
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Invalid delete request'
-      });
-      return;
+  // /kick, /mute, /unmute, /ban and /unban: the moderation actions, with their checks and audit entries
+  private async runModerationCommand(actorId: string, command: SlashCommand, args: string, mentions?: string[]): Promise<CommandResult> {
+    const [target, ...rest] = args.split(/\s+/).filter(Boolean);
+    const type = COMMAND_MODERATION_ACTIONS[command.name];
+    if (!target || !type) {
+      throw new CommandError(`Usage: ${command.usage}`);
     }
 
-    const messageIndex = this.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1 || this.messages[messageIndex].userId !== userId) {
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Message not found or unauthorized'
-      });
-      return;
+    // Banned users are no longer members, so /unban also takes a bare user id
+    const targetId = this.resolveCommandTarget(target, mentions) ?? (type === 'unban_user' ? target.replace(/^@/, '') : null);
+    if (!targetId) {
+      throw new CommandError(`Unknown user ${target}`, 404);
     }
 
-    try {
-      // Update database - soft delete
-      await this.env.DB.prepare(
-        `UPDATE messages SET deleted = 1 WHERE id = ? AND userId = ?`
-      ).bind(messageId, userId).run();
-
-      // Remove from cache
-      this.messages.splice(messageIndex, 1);
+    let duration: number | undefined;
+    if ((type === 'mute_user' || type === 'ban_user') && rest.length) {
+      const parsed = parseDuration(rest[0]);
+      if (parsed !== null) {
+        duration = parsed;
+        rest.shift();
+      }
+    }
+    if (type === 'mute_user' && duration === undefined) {
+      throw new CommandError(`Usage: ${command.usage}`);
+    }
+
+    await this.moderate(actorId, { type, userId: targetId, duration, reason: rest.join(' ') || undefined });
+    return {};
+  }
+
+  // A command's @user: the user id autocompleted mentions carry, or a member's username
+  private resolveCommandTarget(token: string, mentions?: string[]): string | null {
+    const name = token.replace(/^@/, '');
+    if (this.members.has(name) || mentions?.includes(name)) return name;
+
+    const matches = Array.from(this.members.entries())
+      .filter(([, member]) => member.username.toLowerCase() === name.toLowerCase());
+    return matches.length === 1 ? matches[0][0] : null;
+  }
+
+  // Anyone can see the topic; changing it takes a clan or channel admin, as in the REST API
+  private async runTopicCommand(actorId: string, topic: string): Promise<CommandResult> {
+    const channel = await this.getChannelInfo();
+    if (!channel) {
+      throw new CommandError('Conversations have no topic');
+    }
+    if (!topic) {
+      return { reply: channel.topic ? `Topic: ${channel.topic}` : 'No topic is set' };
+    }
+    // Setting the topic announces it to everyone, which a mute rules out
+    if (this.isMuted(actorId)) {
+      throw new SendRejectedError('You are muted in this channel');
+    }
+    const access = await getChannelAccess(this.env.DB, this.channelId, actorId);
+    if (!access || !canManageChannel(access)) {
+      throw new CommandError('Insufficient permissions', 403);
+    }
+    if (topic.length > MAX_TOPIC_LENGTH) {
+      throw new CommandError('Topic is too long');
+    }
+
+    await this.env.DB.prepare(
+      `UPDATE channels SET topic = ?, updatedAt = ? WHERE id = ?`
+    ).bind(topic, new Date().toISOString(), this.channelId).run();
+    this.channel = await getChannel(this.env.DB, this.channelId);
+    if (this.channel) {
+      await this.state.storage.put('channel', this.channel);
+      await this.publish({ type: 'channel_updated', channel: this.channel, actorId });
+    }
+    return {};
+  }
+
+  /**
+   * Commands registered by the clan's bots. The invocation goes to the bot's command URL; its answer
+   * is posted as the bot, or shown only to the invoker when the bot marks it ephemeral.
+   */
+  private async runBotCommand(userId: string, name: string, args: string, message: WSMessage): Promise<CommandResult> {
+    const channel = await this.getChannelInfo();
+    const registered = channel && COMMAND_NAME_PATTERN.test(name) ? await findClanCommand(this.env.DB, channel.clanId, name) : null;
+    if (!channel || !registered) {
+      throw new CommandError(`Unknown command /${name}`, 404);
+    }
+    const { bot, keyHash } = registered;
+
+    // Bots only hear from channels they can read
+    const access = await getChannelAccess(this.env.DB, this.channelId, bot.id);
+    if (!access?.canRead) {
+      throw new CommandError(`${bot.name} isn't in this channel`, 403);
+    }
+    // The bot's answer is posted here, so the invoker must be able to post here too
+    if (this.isMuted(userId)) {
+      throw new SendRejectedError('You are muted in this channel');
+    }
+    if (channel.archived) {
+      throw new SendRejectedError('Channel is archived');
+    }
+    if (channel.type === 'announcement' && !hasRole(await this.getRole(userId), 'moderator')) {
+      throw new SendRejectedError('Only moderators can post in this channel', undefined, 403);
+    }
+
+    const response = await sendBotCommand(bot, keyHash, {
+      type: 'command',
+      command: name,
+      args,
+      clanId: channel.clanId,
+      channelId: this.channelId,
+      threadId: message.threadId,
+      user: { id: userId, username: this.members.get(userId)?.username },
+      timestamp: new Date().toISOString(),
+    });
+
+    if (response.content && !response.ephemeral) {
+      await this.postAsBot(bot, response.content, message.threadId);
+      return { botId: bot.id };
+    }
+    return { reply: response.content, botId: bot.id };
+  }
+
+  // Bot answers go through the same checks as the bot's own REST sends
+  private async postAsBot(bot: Bot, content: string, threadId?: string): Promise<void> {
+    const sender: MessageSender = { userId: bot.id, username: bot.name, avatar: bot.avatarUrl ?? '', authorType: 'bot' };
+    if (await this.isBanned(bot.id)) {
+      throw new SendRejectedError(`${bot.name} is banned from this channel`, undefined, 403);
+    }
+    if (!this.members.has(bot.id)) {
+      await this.loadMember(bot.id, sender.username, sender.avatar);
+    }
+
+    const reply: WSMessage = { type: 'send_message', content, threadId };
+    const validated = await this.assertCanPost(bot.id, reply, false, 'bot');
+    await this.postMessage(bot.id, reply, { ...validated, sender }, null);
+  }
+
+  /**
+   * The commands userId can run here, for autocomplete: built-ins their role allows and the clan's bot commands.
+   */
+  private async listCommands(userId: string): Promise<SlashCommand[]> {
+    const role = await this.getRole(userId);
+    const builtins = BUILTIN_COMMANDS.filter(c => !c.minRole || hasRole(role, c.minRole));
+    const channel = await this.getChannelInfo();
+    return channel ? [...builtins, ...await listClanCommands(this.env.DB, channel.clanId)] : builtins;
+  }
+
+  /**
+   * REST sends from the worker: people and bots posting over HTTP, and incoming webhooks. The worker
+   * has already checked access and sets the sender from the verified identity.
+   */
+  private async handlePostRequest(request: Request): Promise<Response> {
+    const { sender, message: received } = await request.json() as { sender: MessageSender; message: WSMessage };
+    let message = received;
+    const json = (body: unknown, status: number = 200) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    try {
+      const retryAfter = this.rateLimiter.consume(`${sender.userId}:send_message`, RATE_LIMITS.send_message!);
+      if (retryAfter > 0) {
+        throw new SendRejectedError('Rate limit exceeded', { code: 'rate_limited', retryAfter }, 429);
+      }
+
+      // Same deduplication as WS sends, keyed by the client's localId
+      const sendKey = message.localId ? `${sender.userId}:${message.localId}` : null;
+      const previousSend = sendKey ? this.recentSends.get(sendKey) : undefined;
+      if (previousSend) {
+        return json('response' in previousSend
+          ? { ...previousSend.response, duplicate: true }
+          : { messageId: previousSend.messageId, timestamp: previousSend.timestamp, duplicate: true });
+      }
+
+      // Webhooks aren't members; people and bots are, and their bans, mutes and roles apply without a socket
+      if (sender.authorType !== 'webhook') {
+        if (await this.isBanned(sender.userId)) {
+          throw new SendRejectedError('Banned from this channel', undefined, 403);
+        }
+        if (!this.members.has(sender.userId)) {
+          await this.loadMember(sender.userId, sender.username, sender.avatar);
+        }
+      }
+
+      // Webhook text is posted as sent; people and bots can run commands over REST as over WS
+      if (sender.authorType !== 'webhook') {
+        const dispatched = await this.dispatchCommand(sender.userId, message, sendKey);
+        if ('command' in dispatched) {
+          return json(dispatched);
+        }
+        message = dispatched.message;
+      }
+
+      const validated = await this.assertCanPost(sender.userId, message, true, sender.authorType);
+      const posted = await this.postMessage(sender.userId, message, { ...validated, sender }, sendKey);
+      return json({ message: posted }, 201);
+    } catch (error) {
+      // Command and moderation refusals are HttpErrors too
+      if (!(error instanceof HttpError)) console.error('Error posting message:', error);
+      return json({
+        error: error instanceof HttpError ? error.message : 'Failed to send message',
+        ...(error instanceof SendRejectedError ? error.details : {})
+      }, error instanceof HttpError ? error.status : 500);
+    }
+  }
+
+  /**
+   * Checks shared by live, REST and scheduled sends. Returns the trimmed content and the uploads being sent,
+   * or throws SendRejectedError. Slow mode is only checked when the message is about to be posted.
+   * Only channel admins can create webhooks, so webhooks may post in announcement channels; slow mode
+   * still applies to them like to any other sender below moderator.
+   */
+  private async assertCanPost(
+    userId: string,
+    message: WSMessage,
+    checkSlowMode: boolean,
+    authorType?: MessageAuthorType
+  ): Promise<PostableMessage> {
+    const isWebhook = authorType === 'webhook';
+    assertSendFields(message);
+
+    if (this.isMuted(userId)) {
+      throw new SendRejectedError('You are muted in this channel');
+    }
+
+    const channel = await this.getChannelInfo();
+    if (channel?.archived) {
+      throw new SendRejectedError('Channel is archived');
+    }
+
+    // Only moderators and above post in announcement channels
+    if (channel?.type === 'announcement' && !isWebhook && !hasRole(await this.getRole(userId), 'moderator')) {
+      throw new SendRejectedError('Only moderators can post in this channel', undefined, 403);
+    }
+
+    // Slow mode: one message per N seconds for members below moderator
+    const slowModeRetryAfter = checkSlowMode ? await this.getSlowModeRetryAfter(userId) : 0;
+    if (slowModeRetryAfter > 0) {
+      throw new SendRejectedError('Slow mode is enabled', { code: 'slow_mode', retryAfter: slowModeRetryAfter }, 429);
+    }
+
+    // A poll's message text is its question unless the sender wrote something else
+    const poll = message.poll !== undefined ? this.validatePoll(message.poll) : undefined;
+    const content = message.content?.trim() || poll?.question;
+    if (!content || content.length > parseInt(this.env.MAX_MESSAGE_LENGTH)) {
+      throw new SendRejectedError('Message content is invalid or too long');
+    }
+
+    // Replies hang off a root message of this channel; threads don't nest
+    if (message.threadId) {
+      const root = await this.getMessage(message.threadId);
+      if (!root || root.threadId) {
+        throw new SendRejectedError('Thread not found', undefined, 404);
+      }
+    }
+
+    // Only the sender's own uploads to this channel that haven't been sent yet can be attached
+    const attachmentIds = Array.from(new Set((message.attachments || []).map(a => a?.id).filter(id => typeof id === 'string')));
+    if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new SendRejectedError(`At most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message`);
+    }
+    const attachments = await findSendableAttachments(this.env.DB, attachmentIds, this.channelId, userId);
+    if (!attachments) {
+      throw new SendRejectedError('Invalid attachment', undefined, 403);
+    }
+
+    return { content, attachments, poll };
+  }
+
+  /**
+   * Checks a poll a client asked for and returns it with empty tallies. Throws SendRejectedError.
+   */
+  private validatePoll(input: PollInput): Poll {
+    const question = typeof input?.question === 'string' ? input.question.trim() : '';
+    if (!question || question.length > parseInt(this.env.MAX_MESSAGE_LENGTH)) {
+      throw new SendRejectedError('Poll question is invalid or too long');
+    }
+
+    const texts = Array.isArray(input.options) ? input.options.map(o => typeof o === 'string' ? o.trim() : '') : [];
+    if (texts.length < 2 || texts.length > MAX_POLL_OPTIONS) {
+      throw new SendRejectedError(`A poll needs 2 to ${MAX_POLL_OPTIONS} options`);
+    }
+    if (texts.some(t => !t || t.length > MAX_POLL_OPTION_LENGTH)) {
+      throw new SendRejectedError(`Poll options must be 1 to ${MAX_POLL_OPTION_LENGTH} characters`);
+    }
+    if (new Set(texts.map(t => t.toLowerCase())).size !== texts.length) {
+      throw new SendRejectedError('Poll options must be different');
+    }
+
+    let closesAt: string | undefined;
+    if (input.closesAt !== undefined && input.closesAt !== null) {
+      const at = typeof input.closesAt === 'string' ? Date.parse(input.closesAt) : NaN;
+      if (!Number.isFinite(at) || at <= Date.now() || at > Date.now() + MAX_SCHEDULE_AHEAD_MS) {
+        throw new SendRejectedError('closesAt must be a future time within 30 days');
+      }
+      closesAt = new Date(at).toISOString();
+    }
+
+    return {
+      question,
+      options: texts.map((text, i) => ({ id: String(i + 1), text, votes: 0, ...(input.anonymous ? {} : { voters: [] }) })),
+      multipleChoice: input.multipleChoice === true,
+      anonymous: input.anonymous === true,
+      closesAt,
+      totalVoters: 0,
+    };
+  }
+
+  /**
+   * Stores a validated message and publishes it. `onSaved` runs once it is stored, before the broadcast.
+   * sendKey, when given, deduplicates retries of the same send.
+   */
+  private async postMessage(
+    userId: string,
+    message: WSMessage,
+    { content, attachments, poll, sender }: PostableMessage,
+    sendKey: string | null,
+    onSaved?: (posted: Message) => void
+  ): Promise<Message> {
+    const messageId = crypto.randomUUID();
+    const timestamp = new Date().toISOString();
+
+    // Claim the localId before any I/O so a concurrent retry sees it
+    if (sendKey) {
+      this.recentSends.set(sendKey, { messageId, timestamp });
+    }
+    const previousMessageAt = this.lastMessageAt.get(userId);
+    this.lastMessageAt.set(userId, Date.now());
+
+    const member = this.members.get(userId);
+    const username = sender?.username || member?.username || 'User';
+    const profileImage = sender?.avatar ?? member?.avatar ?? '';
+
+    const newMessage: Message = {
+      id: messageId,
+      channelId: this.channelId,
+      userId,
+      content,
+      timestamp,
+      edited: false,
+      deleted: false,
+      threadId: message.threadId,
+      replyTo: message.replyTo,
+      attachments: attachments.map(toAttachment),
+      reactions: {},
+      authorType: sender?.authorType,
+      poll,
+      user: {
+        uid: userId,
+        username,
+        profileImage
+      },
+      mentions: Array.from(new Set((message.mentions || []).filter(m => typeof m === 'string')))
+    };
+
+    // Save to database with user info, attachments and mentions in one batch
+    const relations = relationInserts(this.env.DB, newMessage);
+    try {
+      const results = await this.env.DB.batch([
+        this.env.DB.prepare(
+          `INSERT INTO messages (id, channelId, userId, content, timestamp, threadId, replyTo, username, profileImage, authorType) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).bind(
+          messageId,
+          this.channelId,
+          userId,
+          content,
+          timestamp,
+          message.threadId || null,
+          message.replyTo || null,
+          username,
+          profileImage,
+          sender?.authorType ?? null
+        ),
+        ...relations,
+        ...(attachments.length ? [linkAttachments(this.env.DB, messageId, attachments.map(a => a.id))] : []),
+        ...(poll ? [pollInsert(this.env.DB, messageId, this.channelId, userId, timestamp, poll)] : [])
+      ]);
+
+      // A concurrent send can claim an upload between the check and the link; only what was linked here goes out
+      const linkResult = attachments.length ? results[1 + relations.length] : null;
+      if (linkResult && linkResult.meta.changes !== attachments.length) {
+        const { results: linked } = await this.env.DB.prepare(
+          `SELECT id FROM attachments WHERE messageId = ?`
+        ).bind(messageId).all<{ id: string }>();
+        const linkedIds = new Set(linked.map(r => r.id));
+        newMessage.attachments = newMessage.attachments.filter(a => linkedIds.has(a.id));
+      }
+
+      if (poll?.closesAt) {
+        this.pollCloses.set(messageId, Date.parse(poll.closesAt));
+        await this.state.storage.put('pollCloses', Array.from(this.pollCloses.entries()));
+        await this.scheduleAlarm();
+      }
+
+      // Add to in-memory cache (thread replies stay out of the main timeline)
+      if (!newMessage.threadId) {
+        this.messages.push(newMessage);
+        if (this.messages.length > 100) {
+          this.messages = this.messages.slice(-50);
+        }
+      }
+
+      // Update storage
+      await this.state.storage.put('messages', this.messages);
+      await this.saveLastMessageAt();
+      if (sendKey) {
+        await this.rememberSend();
+      }
+
+      onSaved?.(newMessage);
+
+      // Broadcast to all connected users
+      await this.publish({
+        type: 'new_message',
+        message: newMessage
+      });
+
+      if (newMessage.threadId) {
+        await this.publishThreadUpdate(newMessage.threadId);
+      }
+
+      // Stop typing indicator for the sender
+      await this.handleTypingStop(userId);
+
+      return newMessage;
+    } catch (error) {
+      if (sendKey) {
+        this.recentSends.delete(sendKey);
+      }
+      // A failed send doesn't count against slow mode
+      if (previousMessageAt === undefined) {
+        this.lastMessageAt.delete(userId);
+      } else {
+        this.lastMessageAt.set(userId, previousMessageAt);
+      }
+      throw error;
+    }
+  }
+
+  private async handleEditMessage(message: WSMessage, session: Session): Promise<void> {
+    const { userId } = session;
+    const messageId = message.messageId;
+    const newContent = typeof message.content === 'string' ? message.content.trim() : '';
+    
+    if (!messageId || !newContent) {
+      this.sendError(session, message, 'Invalid edit request');
+      return;
+    }
+    // Edits are held to the same rules as sends
+    if (newContent.length > parseInt(this.env.MAX_MESSAGE_LENGTH)) {
+      this.sendError(session, message, 'Message content is invalid or too long');
+      return;
+    }
+    if (this.isMuted(userId)) {
+      this.sendError(session, message, 'You are muted in this channel');
+      return;
+    }
+
+    const target = await this.getMessage(messageId);
+    if (!target || target.userId !== userId) {
+      this.sendError(session, message, 'Message not found or unauthorized');
+      return;
+    }
+    // The text of a poll is its question, which voters have already answered
+    if (target.poll) {
+      this.sendError(session, message, 'Polls cannot be edited');
+      return;
+    }
+
+    const editedAt = new Date().toISOString();
+
+    try {
+      // Keep the previous text as a revision, then update the message
+      await this.env.DB.batch([
+        revisionInsert(this.env.DB, target, userId, editedAt),
+        this.env.DB.prepare(
+          `UPDATE messages SET content = ?, edited = 1, editedAt = ? WHERE id = ? AND userId = ?`
+        ).bind(newContent, editedAt, messageId, userId),
+        auditInsert(this.env.DB, {
+          channelId: this.channelId,
+          action: 'message_edited',
+          actorId: userId,
+          targetUserId: userId,
+          messageId
+        }),
+      ]);
+
+      // Update cache (target is the cached object when the message is cached)
+      target.content = newContent;
+      target.edited = true;
+      target.editedAt = editedAt;
+
+      await this.state.storage.put('messages', this.messages);
+
+      // Broadcast edit
+      await this.publish({
+        type: 'message_edited',
+        message: target
+      });
+
+    } catch (error) {
+      console.error('Error editing message:', error);
+      this.sendError(session, message, 'Failed to edit message');
+    }
+  }
+
+  private async handleDeleteMessage(message: WSMessage, session: Session): Promise<void> {
+    const { userId } = session;
+    const messageId = message.messageId;
+    
+    if (!messageId) {
+      this.sendError(session, message, 'Invalid delete request');
+      return;
+    }
+
+    // Authors can delete their own messages; moderators can delete those of lower-ranked members
+    const target = await this.getMessage(messageId);
+    const canDelete = target && (
+      target.userId === userId ||
+      await this.canModerate(userId, target.userId)
+    );
+    if (!target || !canDelete) {
+      this.sendError(session, message, 'Message not found or unauthorized');
+      return;
+    }
+
+    try {
+      // Update database - soft delete, and drop any pin so it stops counting towards the limit
+      await this.env.DB.batch([
+        this.env.DB.prepare(
+          `UPDATE messages SET deleted = 1, deletedAt = ? WHERE id = ? AND channelId = ?`
+        ).bind(new Date().toISOString(), messageId, this.channelId),
+        this.env.DB.prepare(
+          `DELETE FROM channel_pins WHERE channelId = ? AND messageId = ?`
+        ).bind(this.channelId, messageId),
+        auditInsert(this.env.DB, {
+          channelId: this.channelId,
+          action: 'message_deleted',
+          actorId: userId,
+          targetUserId: target.userId,
+          messageId,
+          reason: message.reason?.slice(0, 500)
+        }),
+      ]);
+
+      // Remove from cache, along with any pending poll close
+      this.messages = this.messages.filter(m => m.id !== messageId);
       await this.state.storage.put('messages', this.messages);
+      await this.forgetPollClose(messageId);
+
+      // Broadcast deletion
+      await this.publish({
+        type: 'message_deleted',
+        messageId,
+        deletedBy: userId
+      });
+
+      if (target.threadId) {
+        await this.publishThreadUpdate(target.threadId);
+      }
+
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      this.sendError(session, message, 'Failed to delete message');
+    }
+  }
+
+  private async handlePin(message: WSMessage, session: Session): Promise<void> {
+    const { userId } = session;
+    const messageId = message.messageId;
+    const pinning = message.type === 'pin_message';
+
+    if (!messageId) {
+      this.sendError(session, message, 'Invalid pin request');
+      return;
+    }
+
+    // Conversations have no channel settings, so any participant may pin there. A channel
+    // cached before pin roles existed has none; fall back to the column's default.
+    const channel = await this.getChannelInfo();
+    const pinRole: ChannelRole = channel ? channel.pinRole ?? 'moderator' : 'member';
+    if (!hasRole(await this.getRole(userId), pinRole)) {
+      this.sendError(session, message, 'You are not allowed to pin messages in this channel');
+      return;
+    }
+
+    try {
+      if (!pinning) {
+        if (!(await unpinMessage(this.env.DB, this.channelId, messageId))) {
+          this.sendError(session, message, 'Message is not pinned');
+          return;
+        }
+        await this.publish({ type: 'message_unpinned', messageId, actorId: userId });
+        await this.recordAudit({ action: 'message_unpinned', actorId: userId, messageId });
+        return;
+      }
+
+      const target = await this.getMessage(messageId);
+      if (!target) {
+        this.sendError(session, message, 'Message not found');
+        return;
+      }
+
+      const pinnedAt = new Date().toISOString();
+      if (!(await pinMessage(this.env.DB, this.channelId, messageId, userId, pinnedAt))) {
+        this.sendError(session, message, `Message is already pinned, or the channel has reached ${MAX_PINS_PER_CHANNEL} pins`);
+        return;
+      }
+      await this.publish({
+        type: 'message_pinned',
+        messageId,
+        pin: { message: target, pinnedBy: userId, pinnedAt }
+      });
+      await this.recordAudit({ action: 'message_pinned', actorId: userId, targetUserId: target.userId, messageId });
+    } catch (error) {
+      console.error('Error updating pin:', error);
+      this.sendError(session, message, pinning ? 'Failed to pin message' : 'Failed to unpin message');
+    }
+  }
+
+  private async getPinsResponse(): Promise<Response> {
+    try {
+      const pins = await getPins(this.env.DB, this.channelId, this.members);
+      return new Response(JSON.stringify({ pins }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('Error loading pins:', error);
+      return new Response('Failed to load pins', { status: 500 });
+    }
+  }
+
+  /**
+   * REST equivalent of the moderation WS actions. The worker sets X-User-Id from the verified token.
+   */
+  private async handleModerationRequest(request: Request): Promise<Response> {
+    const actorId = request.headers.get('X-User-Id');
+    if (!actorId) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    try {
+      const body = await readJson<Omit<WSMessage, 'type'> & { action: WSMessage['type'] }>(request);
+      if (typeof body !== 'object' || body === null) {
+        throw new ModerationError('Invalid moderation request', 400);
+      }
+      const { action, ...params } = body;
+      if (action === 'set_slow_mode') {
+        await this.setSlowMode(actorId, params.duration);
+      } else {
+        await this.moderate(actorId, { ...params, type: action });
+      }
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      // Malformed bodies (from readJson) and refused actions are HttpErrors; anything else is a server fault
+      if (!(error instanceof HttpError)) console.error('Error applying moderation:', error);
+      const status = error instanceof HttpError ? error.status : 500;
+      return new Response(JSON.stringify({
+        error: error instanceof HttpError ? error.message : 'Moderation action failed'
+      }), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
+  /**
+   * Applies a kick/mute/ban/role change on behalf of actorId and broadcasts it.
+   * Throws ModerationError when the request is invalid or not permitted.
+   */
+  private async moderate(actorId: string, request: WSMessage): Promise<void> {
+    const targetId = request.userId;
+    if (!targetId || targetId === actorId) {
+      throw new ModerationError('Invalid moderation target', 400);
+    }
+
+    const actorRole = await this.getRole(actorId);
+    const targetRole = await this.getRole(targetId);
+    const required: ChannelRole = request.type === 'set_role' ? 'admin' : 'moderator';
+    if (!hasRole(actorRole, required) || !outranks(actorRole, targetRole)) {
+      throw new ModerationError('Insufficient permissions');
+    }
+
+    const now = Date.now();
+    const reason = request.reason?.slice(0, 500);
+    let details: Record<string, unknown> | undefined;
+
+    switch (request.type) {
+      case 'kick_user': {
+        await this.publish({ type: 'member_kicked', userId: targetId, actorId, reason });
+        await this.closeUserSockets(targetId, CLOSE_KICKED, 'Kicked from channel');
+        break;
+      }
+
+      case 'mute_user': {
+        const duration = Number(request.duration);
+        if (!Number.isFinite(duration) || duration <= 0 || duration > MAX_MUTE_SECONDS) {
+          throw new ModerationError('Invalid mute duration', 400);
+        }
+        const mutedUntil = new Date(now + duration * 1000).toISOString();
+        await this.updateMember(targetId, { mutedUntil });
+        await this.publish({ type: 'member_muted', userId: targetId, actorId, mutedUntil, reason });
+        details = { mutedUntil };
+        break;
+      }
+
+      case 'unmute_user': {
+        await this.updateMember(targetId, { mutedUntil: undefined });
+        await this.publish({ type: 'member_unmuted', userId: targetId, actorId });
+        break;
+      }
+
+      case 'ban_user': {
+        const duration = request.duration === undefined ? null : Number(request.duration);
+        if (duration !== null && (!Number.isFinite(duration) || duration <= 0)) {
+          throw new ModerationError('Invalid ban duration', 400);
+        }
+        const expiresAt = duration === null ? null : new Date(now + duration * 1000).toISOString();
+
+        // Banning also drops the membership, so an unbanned user rejoins as a plain member
+        await this.env.DB.batch([
+          this.env.DB.prepare(
+            `INSERT OR REPLACE INTO channel_bans (channelId, userId, bannedBy, reason, createdAt, expiresAt)
+             VALUES (?, ?, ?, ?, ?, ?)`
+          ).bind(this.channelId, targetId, actorId, reason || null, new Date(now).toISOString(), expiresAt),
+          this.env.DB.prepare(
+            `DELETE FROM channel_members WHERE channelId = ? AND userId = ?`
+          ).bind(this.channelId, targetId),
+        ]);
+
+        await this.publish({ type: 'member_banned', userId: targetId, actorId, expiresAt, reason });
+        details = { expiresAt };
+        await this.closeUserSockets(targetId, CLOSE_BANNED, 'Banned from channel');
+        await this.dropUserScheduled(targetId);
+        this.members.delete(targetId);
+        await this.state.storage.put('members', Array.from(this.members.entries()));
+        break;
+      }
+
+      case 'unban_user': {
+        const result = await this.env.DB.prepare(
+          `DELETE FROM channel_bans WHERE channelId = ? AND userId = ?`
+        ).bind(this.channelId, targetId).run();
+        if (!result.meta.changes) {
+          throw new ModerationError('User is not banned', 404);
+        }
+        await this.publish({ type: 'member_unbanned', userId: targetId, actorId });
+        break;
+      }
+
+      case 'set_role': {
+        // Roles can only be granted below your own rank, so ownership is never handed out here
+        if (!isChannelRole(request.role) || !outranks(actorRole, request.role)) {
+          throw new ModerationError('Invalid role', 400);
+        }
+        await this.updateMember(targetId, { role: request.role });
+        await this.publish({ type: 'member_role_updated', userId: targetId, actorId, role: request.role });
+        details = { previousRole: targetRole, role: request.role };
+        break;
+      }
+
+      default:
+        throw new ModerationError('Unknown moderation action', 400);
+    }
+
+    await this.recordAudit({
+      action: MODERATION_AUDIT_ACTIONS[request.type]!,
+      actorId,
+      targetUserId: targetId,
+      reason,
+      details
+    });
+  }
+
+  /**
+   * REST equivalent of mark_read; body is { messageId }.
+   */
+  private async handleReadRequest(request: Request): Promise<Response> {
+    const userId = request.headers.get('X-User-Id');
+    if (!userId) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    try {
+      const { messageId } = await readJson<{ messageId?: string }>(request);
+      await this.markRead(userId, messageId);
+      const [readState] = await getUnreadSummary(this.env.DB, userId, this.channelId);
+      return new Response(JSON.stringify({ readState }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      // Only our own request errors are worth showing; anything else is a server fault
+      if (!(error instanceof HttpError)) console.error('Error marking read:', error);
+      return new Response(JSON.stringify({
+        error: error instanceof HttpError ? error.message : 'Failed to mark read'
+      }), {
+        status: error instanceof HttpError ? error.status : 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
+  /**
+   * Moves the user's read position up to messageId and lets other clients update "seen by".
+   * Throws HttpError (400/404) when messageId is missing or isn't a message of this channel.
+   */
+  private async markRead(userId: string, messageId: string | undefined): Promise<void> {
+    if (typeof messageId !== 'string' || !messageId) {
+      throw new HttpError('messageId is required', 400);
+    }
+    const target = await this.getMessage(messageId);
+    if (!target) {
+      throw new HttpError('Message not found', 404);
+    }
+
+    const moved = await markRead(this.env.DB, this.channelId, userId, target.id, target.timestamp);
+    if (!moved) return;
+
+    // Read state changes too often to go through the event log; init carries the current positions
+    this.broadcast({
+      type: 'read_updated',
+      userId,
+      messageId: target.id,
+      lastReadAt: target.timestamp
+    });
+  }
+
+  /**
+   * Sets the channel's slow mode interval (0 turns it off) and announces it. Admins only.
+   */
+  private async setSlowMode(actorId: string, duration: unknown): Promise<void> {
+    if (!hasRole(await this.getRole(actorId), 'admin')) {
+      throw new ModerationError('Insufficient permissions');
+    }
+
+    const seconds = Number(duration ?? 0);
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_SLOW_MODE_SECONDS) {
+      throw new ModerationError('Invalid slow mode interval', 400);
+    }
+
+    this.slowModeSeconds = seconds;
+    await this.state.storage.put('slowModeSeconds', seconds);
+    await this.publish({ type: 'slow_mode_updated', slowModeSeconds: seconds, actorId });
+    await this.recordAudit({ action: 'slow_mode_updated', actorId, details: { slowModeSeconds: seconds } });
+  }
+
+  /**
+   * Appends to the channel's audit log. The action itself has already happened, so failures are only logged.
+   */
+  private async recordAudit(entry: Omit<NewAuditEntry, 'channelId'>): Promise<void> {
+    try {
+      await auditInsert(this.env.DB, { ...entry, channelId: this.channelId }).run();
+    } catch (error) {
+      console.error('Error writing audit log:', error);
+    }
+  }
+
+  /**
+   * Milliseconds until the user may post again under slow mode, or 0 if they may post now.
+   */
+  private async getSlowModeRetryAfter(userId: string): Promise<number> {
+    if (!this.slowModeSeconds) return 0;
+    if (hasRole(await this.getRole(userId), 'moderator')) return 0;
+
+    const last = this.lastMessageAt.get(userId);
+    if (last === undefined) return 0;
+    return Math.max(0, last + this.slowModeSeconds * 1000 - Date.now());
+  }
+
+  private async loadMember(userId: string, username: string, avatar: string): Promise<ChannelMember> {
+    let row = await this.env.DB.prepare(
+      `SELECT role, mutedUntil FROM channel_members WHERE channelId = ? AND userId = ?`
+    ).bind(this.channelId, userId).first<{ role: ChannelRole; mutedUntil: string | null }>();
+
+    if (!row) {
+      // First visit to a public channel: clan admins start as channel admins, everyone else as a member
+      const clanMember = await this.env.DB.prepare(
+        `SELECT cm.role FROM clan_members cm JOIN channels c ON c.clanId = cm.clanId WHERE c.id = ? AND cm.userId = ?`
+      ).bind(this.channelId, userId).first<{ role: ChannelRole }>();
+      row = { role: hasRole(clanMember?.role, 'admin') ? 'admin' : 'member', mutedUntil: null };
+
+      await this.env.DB.prepare(
+        `INSERT OR IGNORE INTO channel_members (channelId, userId, role, joinedAt) VALUES (?, ?, ?, ?)`
+      ).bind(this.channelId, userId, row.role, new Date().toISOString()).run();
+    }
+
+    const member: ChannelMember = {
+      id: userId,
+      username,
+      avatar,
+      status: 'online',
+      role: row.role,
+      mutedUntil: row.mutedUntil || undefined
+    };
+    this.members.set(userId, member);
+    await this.state.storage.put('members', Array.from(this.members.entries()));
+    return member;
+  }
+
+  /**
+   * Persists a role or mute change for an existing member and mirrors it into the members cache.
+   */
+  private async updateMember(userId: string, changes: { role?: ChannelRole; mutedUntil?: string }): Promise<void> {
+    const sets: string[] = [];
+    const params: any[] = [];
+    if ('role' in changes) {
+      sets.push('role = ?');
+      params.push(changes.role);
+    }
+    if ('mutedUntil' in changes) {
+      sets.push('mutedUntil = ?');
+      params.push(changes.mutedUntil || null);
+    }
 
-      // Broadcast deletion
-      this.broadcast({
-        type: 'message_deleted',
-        messageId
-      });
+    const result = await this.env.DB.prepare(
+      `UPDATE channel_members SET ${sets.join(', ')} WHERE channelId = ? AND userId = ?`
+    ).bind(...params, this.channelId, userId).run();
+    if (!result.meta.changes) {
+      throw new ModerationError('User is not a member of this channel', 404);
+    }
 
-    } catch (error) {
-      console.error('Error deleting message:', error);
-      this.sendToUser(userId, {
-        type: 'error',
-        message: 'Failed to delete message'
-      });
+    const member = this.members.get(userId);
+    if (member) {
+      Object.assign(member, changes);
+      await this.state.storage.put('members', Array.from(this.members.entries()));
     }
   }
 
-  private handleTypingStart(userId: string): void {
-    if (this.typingUsers.has(userId)) return;
+  private async getRole(userId: string): Promise<ChannelRole> {
+    const cached = this.members.get(userId)?.role;
+    if (cached) return cached;
 
-    this.typingUsers.add(userId);
-    
-    // Clear existing timeout
-    const existingTimeout = this.typingTimeouts.get(userId);
-    if (existingTimeout) {
-      clearTimeout(existingTimeout);
+    const row = await this.env.DB.prepare(
+      `SELECT role FROM channel_members WHERE channelId = ? AND userId = ?`
+    ).bind(this.channelId, userId).first<{ role: ChannelRole }>();
+    return row?.role || 'member';
+  }
+
+  private async canModerate(actorId: string, targetId: string): Promise<boolean> {
+    const actorRole = await this.getRole(actorId);
+    return hasRole(actorRole, 'moderator') && outranks(actorRole, await this.getRole(targetId));
+  }
+
+  private isMuted(userId: string): boolean {
+    const mutedUntil = this.members.get(userId)?.mutedUntil;
+    return !!mutedUntil && new Date(mutedUntil).getTime() > Date.now();
+  }
+
+  private async isBanned(userId: string): Promise<boolean> {
+    const ban = await this.env.DB.prepare(
+      `SELECT 1 FROM channel_bans WHERE channelId = ? AND userId = ? AND (expiresAt IS NULL OR expiresAt > ?)`
+    ).bind(this.channelId, userId, new Date().toISOString()).first();
+    return !!ban;
+  }
+
+  private async closeUserSockets(userId: string, code: number, reason: string): Promise<void> {
+    for (const session of this.getUserSessions(userId)) {
+      try {
+        session.webSocket.close(code, reason);
+      } catch (error) {
+        console.error('Error closing socket for user:', userId, error);
+      }
+      await this.handleDisconnect(session.id);
     }
+  }
 
-    // Set new timeout
-    const timeout = setTimeout(() => {
-      this.handleTypingStop(userId);
-    }, 3000) as unknown as number;
-    
-    this.typingTimeouts.set(userId, timeout);
+  /**
+   * Refreshes a thread root's reply summary and tells clients, so the main
+   * timeline can update its reply badge without loading the replies.
+   */
+  private async publishThreadUpdate(threadId: string): Promise<void> {
+    const summary = await getThreadSummary(this.env.DB, threadId);
+
+    const root = this.messages.find(m => m.id === threadId);
+    if (root) {
+      root.threadReplyCount = summary.threadReplyCount;
+      root.lastReplyAt = summary.lastReplyAt;
+      await this.state.storage.put('messages', this.messages);
+    }
+
+    await this.publish({
+      type: 'thread_updated',
+      threadId,
+      ...summary
+    });
+  }
+
+  private async handleTypingStart(userId: string): Promise<void> {
+    if (this.typingUsers.has(userId)) return;
+
+    this.typingUsers.set(userId, Date.now() + TYPING_TIMEOUT_MS);
+    await this.state.storage.put('typing', Array.from(this.typingUsers.entries()));
+    await this.scheduleAlarm();
 
     // Broadcast typing indicator
     this.broadcast({
@@ -503,17 +1899,11 @@ export class ChatRoom {
     }, userId);
   }
 
-  private handleTypingStop(userId: string): void {
+  private async handleTypingStop(userId: string): Promise<void> {
     if (!this.typingUsers.has(userId)) return;
 
     this.typingUsers.delete(userId);
-    
-    // Clear timeout
-    const timeout = this.typingTimeouts.get(userId);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.typingTimeouts.delete(userId);
-    }
+    await this.state.storage.put('typing', Array.from(this.typingUsers.entries()));
 
     // Broadcast typing stop
     this.broadcast({
@@ -522,58 +1912,459 @@ export class ChatRoom {
     }, userId);
   }
 
-  private async handleReactionAdd(message: WSMessage, userId: string): Promise<void> {
-    const { messageId, reaction } = message;
-    if (!messageId || !reaction) return;
+  // Timestamps older than the longest slow mode interval can't hold anyone back, so they aren't kept
+  private async saveLastMessageAt(): Promise<void> {
+    const cutoff = Date.now() - MAX_SLOW_MODE_SECONDS * 1000;
+    for (const [userId, at] of this.lastMessageAt) {
+      if (at < cutoff) this.lastMessageAt.delete(userId);
+    }
+    await this.state.storage.put('lastMessageAt', Array.from(this.lastMessageAt.entries()));
+  }
 
-    const messageIndex = this.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1) return;
+  private async rememberSend(): Promise<void> {
+    while (this.recentSends.size > MAX_RECENT_SENDS) {
+      const oldest = this.recentSends.keys().next().value as string;
+      this.recentSends.delete(oldest);
+    }
+    await this.state.storage.put('recentSends', Array.from(this.recentSends.entries()));
+  }
 
-    const msg = this.messages[messageIndex];
-    if (!msg.reactions[reaction]) {
-      msg.reactions[reaction] = [];
+  /**
+   * Points the alarm at the earliest pending deadline: typing expiry, a scheduled message, a poll's
+   * close time or an outgoing webhook delivery.
+   */
+  private async scheduleAlarm(): Promise<void> {
+    const deadlines = [
+      ...this.typingUsers.values(),
+      ...Array.from(this.scheduled.values()).filter(item => !item.due).map(item => Date.parse(item.sendAt)),
+      ...Array.from(this.pollCloses, ([messageId, closesAt]) => this.pollCloseDueAt(messageId, closesAt)),
+      ...(this.nextDeliveryAt !== null ? [this.nextDeliveryAt] : [])
+    ];
+    if (deadlines.length === 0) return;
+
+    const next = Math.min(...deadlines);
+    const current = await this.state.storage.getAlarm();
+    if (current === null || current > next) {
+      await this.state.storage.setAlarm(next);
     }
+  }
 
-    if (!msg.reactions[reaction].includes(userId)) {
-      msg.reactions[reaction].push(userId);
-      await this.state.storage.put('messages', this.messages);
+  /**
+   * schedule_message / edit_scheduled / cancel_scheduled / list_scheduled. Results go to all of the
+   * user's connections so every device shows the same queue. Throws SendRejectedError.
+   */
+  private async handleScheduledAction(userId: string, message: WSMessage): Promise<void> {
+    switch (message.type) {
+      case 'schedule_message': {
+        const scheduled = await this.createScheduled(userId, message);
+        this.sendToUser(userId, { type: 'message_scheduled', localId: message.localId, scheduled });
+        break;
+      }
+      case 'edit_scheduled': {
+        const scheduled = await this.updateScheduled(userId, message.scheduledId, message);
+        this.sendToUser(userId, { type: 'scheduled_updated', scheduled });
+        break;
+      }
+      case 'cancel_scheduled': {
+        await this.cancelScheduled(userId, message.scheduledId);
+        this.sendToUser(userId, { type: 'scheduled_cancelled', scheduledId: message.scheduledId });
+        break;
+      }
+      case 'list_scheduled': {
+        this.sendToUser(userId, { type: 'scheduled_list', scheduledMessages: this.listScheduled(userId) });
+        break;
+      }
+    }
+  }
 
-      this.broadcast({
+  /**
+   * REST equivalent of the scheduled message WS actions:
+   *   GET /scheduled, POST /scheduled, PATCH /scheduled/:id, DELETE /scheduled/:id
+   */
+  private async handleScheduledRequest(request: Request, scheduledId?: string): Promise<Response> {
+    const userId = request.headers.get('X-User-Id');
+    if (!userId) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const json = (body: unknown, status: number = 200) => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    try {
+      if (!scheduledId && request.method === 'GET') {
+        return json({ scheduledMessages: this.listScheduled(userId) });
+      }
+      if (!scheduledId && request.method === 'POST') {
+        const scheduled = await this.createScheduled(userId, await readJson<WSMessage>(request));
+        this.sendToUser(userId, { type: 'message_scheduled', scheduled });
+        return json({ scheduled }, 201);
+      }
+      if (scheduledId && request.method === 'PATCH') {
+        const scheduled = await this.updateScheduled(userId, scheduledId, await readJson<WSMessage>(request));
+        this.sendToUser(userId, { type: 'scheduled_updated', scheduled });
+        return json({ scheduled });
+      }
+      if (scheduledId && request.method === 'DELETE') {
+        await this.cancelScheduled(userId, scheduledId);
+        this.sendToUser(userId, { type: 'scheduled_cancelled', scheduledId });
+        return json({ success: true });
+      }
+      return new Response('Not found', { status: 404 });
+    } catch (error) {
+      if (!(error instanceof HttpError)) console.error('Error handling scheduled message:', error);
+      return json({
+        error: error instanceof HttpError ? error.message : 'Scheduled message request failed'
+      }, error instanceof HttpError ? error.status : 500);
+    }
+  }
+
+  private listScheduled(userId: string): ScheduledMessage[] {
+    return Array.from(this.scheduled.values())
+      .filter(item => item.userId === userId)
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+  }
+
+  private async createScheduled(userId: string, request: WSMessage): Promise<ScheduledMessage> {
+    if (this.listScheduled(userId).length >= MAX_SCHEDULED_PER_USER) {
+      throw new SendRejectedError(`You can have at most ${MAX_SCHEDULED_PER_USER} scheduled messages in a channel`);
+    }
+
+    const kind = request.reminder ? 'reminder' : 'message';
+    if (request.poll !== undefined) {
+      throw new SendRejectedError('Polls cannot be scheduled');
+    }
+    const sendAt = this.parseSendAt(request.sendAt);
+    const content = kind === 'message'
+      ? (await this.assertCanPost(userId, request, false)).content
+      : this.validateReminderContent(request.content);
+
+    if (kind === 'reminder' && request.messageId && !(await this.getMessage(request.messageId))) {
+      throw new SendRejectedError('Message not found', undefined, 404);
+    }
+
+    const scheduled: ScheduledMessage = {
+      id: crypto.randomUUID(),
+      channelId: this.channelId,
+      userId,
+      kind,
+      content,
+      sendAt,
+      createdAt: new Date().toISOString(),
+      ...(kind === 'message' ? {
+        threadId: request.threadId,
+        replyTo: request.replyTo,
+        attachments: request.attachments,
+        mentions: request.mentions
+      } : {
+        messageId: request.messageId
+      })
+    };
+
+    await this.saveScheduled(scheduled);
+    return scheduled;
+  }
+
+  private async updateScheduled(userId: string, scheduledId: string | undefined, changes: WSMessage): Promise<ScheduledMessage> {
+    const existing = scheduledId ? this.scheduled.get(scheduledId) : undefined;
+    if (!existing || existing.userId !== userId || existing.due) {
+      throw new SendRejectedError('Scheduled message not found', undefined, 404);
+    }
+
+    const updated: ScheduledMessage = { ...existing };
+    if (changes.sendAt !== undefined) {
+      updated.sendAt = this.parseSendAt(changes.sendAt);
+    }
+    if (changes.content !== undefined) {
+      updated.content = existing.kind === 'message'
+        ? (await this.assertCanPost(userId, { ...changes, threadId: existing.threadId }, false)).content
+        : this.validateReminderContent(changes.content);
+    }
+
+    await this.saveScheduled(updated);
+    return updated;
+  }
+
+  private async cancelScheduled(userId: string, scheduledId: string | undefined): Promise<void> {
+    const existing = scheduledId ? this.scheduled.get(scheduledId) : undefined;
+    if (!existing || existing.userId !== userId) {
+      throw new SendRejectedError('Scheduled message not found', undefined, 404);
+    }
+    await this.removeScheduled(existing.id);
+  }
+
+  private parseSendAt(sendAt: unknown): string {
+    const at = typeof sendAt === 'string' ? Date.parse(sendAt) : NaN;
+    const now = Date.now();
+    if (!Number.isFinite(at) || at <= now || at > now + MAX_SCHEDULE_AHEAD_MS) {
+      throw new SendRejectedError('sendAt must be a future time within 30 days');
+    }
+    return new Date(at).toISOString();
+  }
+
+  private validateReminderContent(content: unknown): string {
+    const trimmed = typeof content === 'string' ? content.trim() : '';
+    if (!trimmed || trimmed.length > parseInt(this.env.MAX_MESSAGE_LENGTH)) {
+      throw new SendRejectedError('Reminder text is invalid or too long');
+    }
+    return trimmed;
+  }
+
+  private async saveScheduled(item: ScheduledMessage): Promise<void> {
+    this.scheduled.set(item.id, item);
+    await this.state.storage.put(`${SCHEDULED_KEY_PREFIX}${item.id}`, item);
+    await this.scheduleAlarm();
+  }
+
+  private async removeScheduled(scheduledId: string): Promise<void> {
+    this.scheduled.delete(scheduledId);
+    await this.state.storage.delete(`${SCHEDULED_KEY_PREFIX}${scheduledId}`);
+  }
+
+  /**
+   * Called from the alarm once an item's time has come. Scheduled messages go through the same
+   * checks and posting path as a live send, against the channel and the author as they are now;
+   * reminders go privately to their author.
+   */
+  private async deliverScheduled(item: ScheduledMessage): Promise<void> {
+    if (item.kind === 'reminder') {
+      if (this.isOnline(item.userId)) {
+        this.sendToUser(item.userId, { type: 'reminder', scheduled: item });
+        await this.removeScheduled(item.id);
+      } else {
+        await this.saveScheduled({ ...item, due: true });
+      }
+      return;
+    }
+
+    const message: WSMessage = {
+      type: 'send_message',
+      content: item.content,
+      threadId: item.threadId,
+      replyTo: item.replyTo,
+      attachments: item.attachments,
+      mentions: item.mentions
+    };
+
+    try {
+      // The author may have been banned or lost access to the channel since scheduling
+      if (await this.isBanned(item.userId)) {
+        throw new SendRejectedError('Banned from this channel', undefined, 403);
+      }
+      if (await this.getChannelInfo() && !(await getChannelAccess(this.env.DB, this.channelId, item.userId))?.canRead) {
+        throw new SendRejectedError('You no longer have access to this channel', undefined, 403);
+      }
+
+      // The key makes an alarm retry after a partial failure a no-op rather than a second post
+      const sendKey = `${item.userId}:scheduled:${item.id}`;
+      if (!this.recentSends.has(sendKey)) {
+        const dispatched = await this.dispatchCommand(item.userId, message, sendKey);
+        if ('command' in dispatched) {
+          this.sendToUser(item.userId, { type: 'command_response', ...dispatched });
+        } else {
+          const validated = await this.assertCanPost(item.userId, dispatched.message, true);
+          await this.postMessage(item.userId, dispatched.message, validated, sendKey);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) console.error('Error delivering scheduled message:', error);
+      this.sendToUser(item.userId, {
+        type: 'scheduled_failed',
+        scheduled: item,
+        error: error instanceof HttpError ? error.message : 'Failed to send message'
+      });
+    }
+    await this.removeScheduled(item.id);
+  }
+
+  // Members who are removed or banned lose whatever they had scheduled
+  private async dropUserScheduled(userId: string): Promise<void> {
+    for (const item of this.listScheduled(userId)) {
+      await this.removeScheduled(item.id);
+    }
+  }
+
+  private async deliverDueReminders(userId: string): Promise<void> {
+    for (const item of this.listScheduled(userId)) {
+      if (item.due) {
+        this.sendToUser(userId, { type: 'reminder', scheduled: item });
+        await this.removeScheduled(item.id);
+      }
+    }
+  }
+
+  private async handleReactionAdd(message: WSMessage, session: Session): Promise<void> {
+    const { userId } = session;
+    const { messageId, reaction } = message;
+    if (!messageId || !reaction || reaction.length > MAX_REACTION_LENGTH) {
+      this.sendError(session, message, 'Invalid reaction request');
+      return;
+    }
+    if (this.isMuted(userId)) {
+      this.sendError(session, message, 'You are muted in this channel');
+      return;
+    }
+
+    try {
+      // Only messages of this channel that still exist can be reacted to, cached or not
+      const result = await this.env.DB.prepare(
+        `INSERT OR IGNORE INTO message_reactions (messageId, reaction, userId, createdAt)
+         SELECT id, ?, ?, ? FROM messages WHERE id = ? AND channelId = ? AND deleted = 0`
+      ).bind(reaction, userId, new Date().toISOString(), messageId, this.channelId).run();
+
+      if (!result.meta.changes) return;
+
+      const msg = this.messages.find(m => m.id === messageId);
+      if (msg) {
+        (msg.reactions[reaction] ||= []).push(userId);
+        await this.state.storage.put('messages', this.messages);
+      }
+
+      await this.publish({
         type: 'reaction_added',
         messageId,
         reaction,
         userId
       });
+    } catch (error) {
+      console.error('Error adding reaction:', error);
+      this.sendError(session, message, 'Failed to add reaction');
     }
   }
 
-  private async handleReactionRemove(message: WSMessage, userId: string): Promise<void> {
+  private async handleReactionRemove(message: WSMessage, session: Session): Promise<void> {
+    const { userId } = session;
     const { messageId, reaction } = message;
-    if (!messageId || !reaction) return;
-
-    const messageIndex = this.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1) return;
+    if (!messageId || !reaction) {
+      this.sendError(session, message, 'Invalid reaction request');
+      return;
+    }
 
-    const msg = this.messages[messageIndex];
-    if (msg.reactions[reaction]) {
-      msg.reactions[reaction] = msg.reactions[reaction].filter(id => id !== userId);
-      if (msg.reactions[reaction].length === 0) {
-        delete msg.reactions[reaction];
+    try {
+      const result = await this.env.DB.prepare(
+        `DELETE FROM message_reactions WHERE messageId = ? AND reaction = ? AND userId = ?
+         AND messageId IN (SELECT id FROM messages WHERE channelId = ?)`
+      ).bind(messageId, reaction, userId, this.channelId).run();
+
+      if (!result.meta.changes) return;
+
+      const msg = this.messages.find(m => m.id === messageId);
+      if (msg?.reactions[reaction]) {
+        msg.reactions[reaction] = msg.reactions[reaction].filter(id => id !== userId);
+        if (msg.reactions[reaction].length === 0) {
+          delete msg.reactions[reaction];
+        }
+        await this.state.storage.put('messages', this.messages);
       }
-      await this.state.storage.put('messages', this.messages);
 
-      this.broadcast({
+      await this.publish({
         type: 'reaction_removed',
         messageId,
         reaction,
         userId
       });
+    } catch (error) {
+      console.error('Error removing reaction:', error);
+      this.sendError(session, message, 'Failed to remove reaction');
+    }
+  }
+
+  /**
+   * poll_vote: replaces the user's votes on an open poll; an empty optionIds withdraws them.
+   * Everyone gets the new tallies, and the voter's devices learn which options they now hold.
+   */
+  private async votePoll(userId: string, request: WSMessage): Promise<void> {
+    const target = request.messageId ? await this.getMessage(request.messageId) : null;
+    if (!target?.poll) {
+      throw new SendRejectedError('Poll not found', undefined, 404);
+    }
+
+    const optionIds = Array.from(new Set((request.optionIds || []).filter(id => typeof id === 'string')));
+    if (optionIds.some(id => !target.poll!.options.some(o => o.id === id))) {
+      throw new SendRejectedError('Unknown poll option');
+    }
+    if (!target.poll.multipleChoice && optionIds.length > 1) {
+      throw new SendRejectedError('This poll allows one choice');
+    }
+
+    if (!(await setPollVotes(this.env.DB, target.id, userId, optionIds))) {
+      throw new SendRejectedError('Poll is closed');
+    }
+    this.sendToUser(userId, { type: 'poll_voted', messageId: target.id, optionIds });
+    await this.publishPollUpdate(target.id);
+  }
+
+  // poll_close: the poll's author or a moderator ends it early
+  private async closePollByUser(userId: string, messageId: string | undefined): Promise<void> {
+    const target = messageId ? await this.getMessage(messageId) : null;
+    if (!target?.poll) {
+      throw new SendRejectedError('Poll not found', undefined, 404);
+    }
+    if (target.userId !== userId && !hasRole(await this.getRole(userId), 'moderator')) {
+      throw new SendRejectedError('Only the poll author or a moderator can close it', undefined, 403);
     }
+
+    if (!(await closePoll(this.env.DB, target.id, userId, new Date().toISOString()))) {
+      throw new SendRejectedError('Poll is already closed');
+    }
+    await this.forgetPollClose(target.id);
+    await this.publishPollUpdate(target.id);
+  }
+
+  // A poll reached its close time; votes already stopped counting then, so it closes as of closesAt
+  private async closeDuePoll(messageId: string, closesAt: number): Promise<void> {
+    try {
+      await closePoll(this.env.DB, messageId, null, new Date(closesAt).toISOString());
+      await this.forgetPollClose(messageId);
+      await this.publishPollUpdate(messageId);
+    } catch (error) {
+      // Left in pollCloses and tried again after a pause, rather than by an alarm that fires straight away
+      console.error('Error closing poll:', messageId, error);
+      this.pollCloseRetries.set(messageId, Date.now() + DELIVERY_ERROR_RETRY_MS);
+    }
+  }
+
+  // When the alarm should next try to close a poll: its close time, or later after a failed attempt
+  private pollCloseDueAt(messageId: string, closesAt: number): number {
+    return Math.max(closesAt, this.pollCloseRetries.get(messageId) ?? 0);
+  }
+
+  private async forgetPollClose(messageId: string): Promise<void> {
+    this.pollCloseRetries.delete(messageId);
+    if (this.pollCloses.delete(messageId)) {
+      await this.state.storage.put('pollCloses', Array.from(this.pollCloses.entries()));
+    }
+  }
+
+  /**
+   * Publishes a poll's current tallies and keeps the cached message in step with them.
+   */
+  private async publishPollUpdate(messageId: string): Promise<void> {
+    const poll = await getPoll(this.env.DB, messageId);
+    if (!poll) return;
+
+    const cached = this.messages.find(m => m.id === messageId);
+    if (cached) {
+      cached.poll = poll;
+      await this.state.storage.put('messages', this.messages);
+    }
+    await this.publish({ type: 'poll_updated', messageId, poll });
   }
 
-  private handleDisconnect(userId: string): void {
-    this.sessions.delete(userId);
-    this.handleTypingStop(userId);
+  private async handleDisconnect(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    const { userId } = session;
+    this.sessions.delete(sessionId);
+
+    // Other devices are still connected, so the user hasn't left
+    if (this.isOnline(userId)) return;
+
+    this.rateLimiter.prune(RATE_LIMITS as Record<string, BucketConfig>);
+
+    await this.handleTypingStop(userId);
 
     // Notify other users
     this.broadcast({
@@ -582,23 +2373,208 @@ export class ChatRoom {
     }, userId);
   }
 
+  private async sendInit(session: Session): Promise<void> {
+    let readState: UnreadSummary | null = null;
+    let reads: ReadPosition[] = [];
+    try {
+      const summary = await getUnreadSummary(this.env.DB, session.userId, this.channelId);
+      readState = summary[0] || null;
+      reads = await getChannelReads(this.env.DB, this.channelId);
+    } catch (error) {
+      console.error('Error loading read state:', error);
+    }
+
+    let pins: PinnedMessage[] = [];
+    try {
+      pins = await getPins(this.env.DB, this.channelId, this.members);
+    } catch (error) {
+      console.error('Error loading pins:', error);
+    }
+
+    // Anonymous polls don't say who voted, so each user is told their own votes
+    let pollVotes: Record<string, string[]> = {};
+    try {
+      pollVotes = await getUserPollVotes(this.env.DB, session.userId, this.messages.filter(m => m.poll).map(m => m.id));
+    } catch (error) {
+      console.error('Error loading poll votes:', error);
+    }
+
+    this.sendToSession(session, {
+      type: 'init',
+      channel: await this.getChannelInfo(),
+      messages: this.messages,
+      seq: this.seq,
+      slowModeSeconds: this.slowModeSeconds,
+      // This user's position and unread/mention counts, plus everyone's positions for "seen by"
+      readState,
+      reads,
+      pins,
+      pollVotes
+    });
+  }
+
+  /**
+   * Replays the events a reconnecting client missed since `since`. If they have
+   * already been dropped from the log the client is told to resync and gets a fresh init.
+   */
+  private async resumeSession(session: Session, since: number): Promise<void> {
+    const oldestAvailable = Math.max(1, this.seq - MAX_EVENT_LOG + 1);
+    if (since > this.seq || since + 1 < oldestAvailable) {
+      console.log(`⚠️ Resync required for ${session.userId}: since=${since}, seq=${this.seq}`);
+      this.sendToSession(session, {
+        type: 'resync_required',
+        seq: this.seq
+      });
+      await this.sendInit(session);
+      return;
+    }
+
+    const stored = await this.state.storage.list<any>({
+      start: this.eventKey(since + 1),
+      end: this.eventKey(this.seq + 1)
+    });
+
+    this.sendToSession(session, {
+      type: 'replay',
+      events: Array.from(stored.values()),
+      seq: this.seq
+    });
+  }
+
+  /**
+   * Broadcasts a room state change with the next sequence number and appends it
+   * to the bounded event log so reconnecting clients can replay it.
+   */
+  private async publish(event: any): Promise<void> {
+    const seq = ++this.seq;
+    const sequenced = { ...event, seq };
+
+    await this.state.storage.put({
+      seq,
+      [this.eventKey(seq)]: sequenced
+    });
+
+    if (seq > MAX_EVENT_LOG) {
+      await this.state.storage.delete(this.eventKey(seq - MAX_EVENT_LOG));
+    }
+
+    this.broadcast(sequenced);
+    await this.queueDeliveries(sequenced);
+  }
+
+  /**
+   * Queues a published event for the outgoing webhooks subscribed to it. Sending happens from the
+   * alarm, so a slow or failing receiver never holds up the room.
+   */
+  private async queueDeliveries(event: { type: WSResponse['type'] }): Promise<void> {
+    const eventType = event.type as SubscribableEvent;
+    if (!SUBSCRIBABLE_EVENTS.includes(eventType)) return;
+
+    try {
+      const subscriptions = (await this.getSubscriptions()).filter(s => s.events.includes(eventType));
+      if (subscriptions.length === 0) return;
+
+      const payload = JSON.stringify({
+        type: eventType,
+        clanId: subscriptions[0].clanId,
+        channelId: this.channelId,
+        timestamp: new Date().toISOString(),
+        data: event,
+      });
+      await this.env.DB.batch(deliveryInserts(
+        this.env.DB,
+        subscriptions.map(s => s.id),
+        this.channelId,
+        eventType,
+        payload
+      ));
+      await this.wakeForDeliveries(Date.now());
+    } catch (error) {
+      console.error('Error queueing event deliveries:', error);
+    }
+  }
+
+  // Conversations have no channel row and so no clan; only clan channels have subscriptions
+  private async getSubscriptions(): Promise<EventSubscription[]> {
+    if (this.subscriptions && Date.now() - this.subscriptions.loadedAt < SUBSCRIPTION_CACHE_MS) {
+      return this.subscriptions.list;
+    }
+
+    const channel = await this.getChannelInfo();
+    const list = channel ? await findChannelSubscriptions(this.env.DB, this.channelId, channel.clanId) : [];
+    this.subscriptions = { list, loadedAt: Date.now() };
+    return list;
+  }
+
+  private async wakeForDeliveries(at: number): Promise<void> {
+    if (this.nextDeliveryAt !== null && this.nextDeliveryAt <= at) return;
+    await this.setNextDeliveryAt(at);
+    await this.scheduleAlarm();
+  }
+
+  private async setNextDeliveryAt(at: number | null): Promise<void> {
+    this.nextDeliveryAt = at;
+    if (at === null) {
+      await this.state.storage.delete('nextDeliveryAt');
+    } else {
+      await this.state.storage.put('nextDeliveryAt', at);
+    }
+  }
+
+  /**
+   * Sends the deliveries that are due in parallel and records each outcome, then points
+   * nextDeliveryAt at the earliest retry still pending.
+   */
+  private async deliverDueEvents(): Promise<void> {
+    try {
+      const due = await findDueDeliveries(this.env.DB, this.channelId, new Date().toISOString(), MAX_DELIVERIES_PER_ALARM);
+      const results = await Promise.allSettled(due.map(async ({ delivery, payload, target }) => {
+        const outcome = target ? await sendDelivery(target, delivery, payload) : abandonedDelivery(delivery.attempts);
+        await recordDeliveryAttempt(this.env.DB, delivery.id, outcome);
+      }));
+      for (const result of results) {
+        if (result.status === 'rejected') console.error('Error recording event delivery:', result.reason);
+      }
+
+      await this.setNextDeliveryAt(await nextPendingDeliveryAt(this.env.DB, this.channelId));
+    } catch (error) {
+      console.error('Error delivering events:', error);
+      await this.setNextDeliveryAt(Date.now() + DELIVERY_ERROR_RETRY_MS);
+    }
+  }
+
+  private eventKey(seq: number): string {
+    // Zero-padded so storage.list() returns events in sequence order
+    return `${EVENT_KEY_PREFIX}${seq.toString().padStart(12, '0')}`;
+  }
+
+  /**
+   * Returns a message of this channel from the cache, falling back to D1 for
+   * older messages and thread replies.
+   */
+  private async getMessage(messageId: string): Promise<Message | null> {
+    return this.messages.find(m => m.id === messageId)
+      ?? await findMessage(this.env.DB, this.channelId, messageId, this.members);
+  }
+
   private broadcast(message: any, excludeUserId?: string): void {
     const messageStr = JSON.stringify(message);
-    console.log(`📡 Broadcasting ${message.type} to ${this.sessions.size} users (excluding: ${excludeUserId})`);
+    console.log(`📡 Broadcasting ${message.type} to ${this.sessions.size} connections (excluding: ${excludeUserId})`);
     
     let successCount = 0;
     let failCount = 0;
     
-    this.sessions.forEach((ws, userId) => {
-      if (userId !== excludeUserId && ws.readyState === WebSocket.READY_STATE_OPEN) {
+    this.sessions.forEach((session, sessionId) => {
+      const ws = session.webSocket;
+      if (session.userId !== excludeUserId && ws.readyState === WebSocket.READY_STATE_OPEN) {
         try {
           ws.send(messageStr);
           successCount++;
         } catch (error) {
-          console.error('Error sending message to user:', userId, error);
+          console.error('Error sending message to user:', session.userId, error);
           failCount++;
           // Clean up broken connection
-          this.sessions.delete(userId);
+          void this.handleDisconnect(sessionId);
         }
       }
     });
@@ -607,16 +2583,55 @@ export class ChatRoom {
   }
 
   private sendToUser(userId: string, message: any): void {
-    const ws = this.sessions.get(userId);
-    if (ws && ws.readyState === WebSocket.READY_STATE_OPEN) {
+    for (const session of this.getUserSessions(userId)) {
+      this.sendToSession(session, message);
+    }
+  }
+
+  private sendToSession(session: Session, message: any): void {
+    const ws = session.webSocket;
+    if (ws.readyState === WebSocket.READY_STATE_OPEN) {
       try {
         ws.send(JSON.stringify(message));
       } catch (error) {
-        console.error('Error sending message to user:', userId, error);
-        this.sessions.delete(userId);
+        console.error('Error sending message to user:', session.userId, error);
+        void this.handleDisconnect(session.id);
       }
     }
   }
+
+  /**
+   * Reports a failed request to the connection that made it, echoing its type and
+   * localId so the client can tell which request failed.
+   */
+  private sendError(session: Session, request: WSMessage, error: string, details?: { code: string; retryAfter?: number }): void {
+    this.sendToSession(session, {
+      type: 'error',
+      message: error,
+      error,
+      requestType: request.type,
+      localId: request.localId,
+      messageId: request.messageId,
+      ...details
+    });
+  }
+
+  private getSession(webSocket: WebSocket): Session | undefined {
+    const attachment = webSocket.deserializeAttachment() as SessionAttachment | null;
+    return attachment ? this.sessions.get(attachment.id) : undefined;
+  }
+
+  private getUserSessions(userId: string): Session[] {
+    return Array.from(this.sessions.values()).filter(s => s.userId === userId);
+  }
+
+  private getOnlineUserIds(): string[] {
+    return Array.from(new Set(Array.from(this.sessions.values(), s => s.userId)));
+  }
+
+  private isOnline(userId: string): boolean {
+    return this.getUserSessions(userId).length > 0;
+  }
 }
 
 export default ChatRoom;
\ No newline at end of file
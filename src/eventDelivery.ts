@@ -0,0 +1,93 @@
+// src/eventDelivery.ts
+import { DeliveryStatus } from './types';
+
+// Give up after this many attempts; with the backoff below that spans about eight and a half hours
+export const MAX_DELIVERY_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Enough of the receiver's response to debug with from the delivery log
+const MAX_LOGGED_RESPONSE_LENGTH = 1000;
+
+export interface DeliveryOutcome {
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+}
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>` with the subscription's secret, hex encoded. Receivers
+ * recompute it to check the delivery came from us, and reject old timestamps to stop replays.
+ */
+export async function signDelivery(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * POSTs one event to a subscriber. Any 2xx counts as delivered; anything else, a timeout included,
+ * is retried with exponential backoff until MAX_DELIVERY_ATTEMPTS.
+ */
+export async function sendDelivery(
+  target: { url: string; secret: string },
+  delivery: { id: string; eventType: string; attempts: number },
+  payload: string
+): Promise<DeliveryOutcome> {
+  const attempts = delivery.attempts + 1;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  try {
+    const response = await fetch(target.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ClanChat-Webhooks/1.0',
+        'X-Chat-Event': delivery.eventType,
+        'X-Chat-Delivery': delivery.id,
+        'X-Chat-Timestamp': timestamp,
+        'X-Chat-Signature': `sha256=${await signDelivery(target.secret, timestamp, payload)}`,
+      },
+      body: payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(0, MAX_LOGGED_RESPONSE_LENGTH);
+
+    if (response.ok) {
+      return { status: 'succeeded', attempts, responseStatus: response.status, responseBody };
+    }
+    return retryOrFail(attempts, { responseStatus: response.status, responseBody, lastError: `HTTP ${response.status}` });
+  } catch (error) {
+    return retryOrFail(attempts, { lastError: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * The outcome for a delivery whose subscription was deleted or disabled before it went out.
+ */
+export function abandonedDelivery(attempts: number): DeliveryOutcome {
+  return { status: 'failed', attempts, lastError: 'Subscription deleted or disabled' };
+}
+
+function retryOrFail(attempts: number, result: Omit<DeliveryOutcome, 'status' | 'attempts'>): DeliveryOutcome {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    return { status: 'failed', attempts, ...result };
+  }
+  return {
+    status: 'pending',
+    attempts,
+    nextAttemptAt: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+    ...result,
+  };
+}
+
+// 1, 2, 4, 8... minutes up to 6 hours, with up to 10% jitter so a recovering receiver isn't hit all at once
+function retryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return delay + Math.floor(Math.random() * delay * 0.1);
+}
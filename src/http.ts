@@ -0,0 +1,28 @@
+// src/http.ts
+export class HttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export function jsonResponse(body: unknown, corsHeaders: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Parses a JSON request body, turning malformed input into a 400.
+ */
+export async function readJson<T>(request: Request): Promise<T> {
+  try {
+    return await request.json() as T;
+  } catch {
+    throw new HttpError('Invalid JSON body', 400);
+  }
+}
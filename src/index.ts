@@ -1,5 +1,28 @@
 // src/index.ts
 import { ChatRoom } from './durable-objects/ChatRoom';
+import { authenticate, assertSameUser, AuthError, AuthUser } from './auth';
+import { HttpError, readJson } from './http';
+import { getRoom, roomRequest } from './rooms';
+import { parseSearchOptions, searchMessages, SearchScope } from './db/search';
+import { getUnreadSummary } from './db/reads';
+import { getClanRole } from './db/clans';
+import { handleClanRoutes } from './routes/clans';
+import { handleInviteRoutes } from './routes/invites';
+import { handleConversationRoutes, requireRoomAccess } from './routes/conversations';
+import { handleAuditRoutes } from './routes/audit';
+import { assertUploadAllowed, handleUploadRoutes } from './routes/uploads';
+import {
+  authenticateUserOrBot,
+  executeWebhook,
+  handleIntegrationRoutes,
+  postToRoom,
+  senderFor,
+} from './routes/integrations';
+import { handleSubscriptionRoutes } from './routes/subscriptions';
+import { runRetention } from './retention';
+import { getAttachment, insertAttachment, findLegacyAttachmentChannel, attachmentKey, thumbnailKey, toAttachment } from './db/attachments';
+import { blobSource, extractMediaMetadata } from './media';
+import { AttachmentRecord, WSMessage } from './types';
 
 // Export the Durable Object class
 export { ChatRoom };
@@ -8,9 +31,16 @@ export interface Env {
   CHAT_ROOMS: DurableObjectNamespace;
   CHANNEL_CACHE: KVNamespace;
   ATTACHMENTS: R2Bucket;
+  IMAGES?: ImagesBinding;
   MAX_MESSAGE_LENGTH: string;
   MAX_FILE_SIZE: string;
+  UPLOAD_QUOTA_BYTES?: string;
   DB: D1Database;
+  JWT_SECRET?: string;
+  JWT_PUBLIC_KEY?: string;
+  JWKS_URL?: string;
+  JWT_ISSUER?: string;
+  JWT_AUDIENCE?: string;
 }
 
 const worker = {
@@ -20,7 +50,7 @@ const worker = {
     // CORS headers
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-User-Id, X-Channel-Id',
     };
 
@@ -29,68 +59,133 @@ const worker = {
     }
 
     try {
-      // Debug endpoint to check database
-      if (url.pathname === '/api/debug/db-check') {
-        try {
-          const messagesCount = await env.DB.prepare(
-            'SELECT COUNT(*) as count FROM messages'
-          ).first();
-          
-          const recentMessages = await env.DB.prepare(
-            'SELECT * FROM messages ORDER BY timestamp DESC LIMIT 5'
-          ).all();
-          
-          return new Response(JSON.stringify({
-            messagesCount: messagesCount?.count || 0,
-            recentMessages: recentMessages.results,
-            timestamp: new Date().toISOString()
-          }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          });
-        } catch (error: any) {
-          return new Response(JSON.stringify({
-            error: 'Database error',
-            message: error.message
-          }), {
-            status: 500,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          });
+      // Route: /api/channels/:channelId/search
+      const searchMatch = url.pathname.match(/^\/api\/channels\/([^\/]+)\/search$/);
+      if (searchMatch && request.method === 'GET') {
+        const user = await authenticate(request, env);
+        const channelId = decodeURIComponent(searchMatch[1]);
+        await requireRoomAccess(env, channelId, user);
+        return this.handleSearch(request, env, corsHeaders, { channelId });
+      }
+
+      // Route: /api/clans/:clanId/search
+      const clanSearchMatch = url.pathname.match(/^\/api\/clans\/([^\/]+)\/search$/);
+      if (clanSearchMatch && request.method === 'GET') {
+        const user = await authenticate(request, env);
+        const clanId = decodeURIComponent(clanSearchMatch[1]);
+        if (!(await getClanRole(env.DB, clanId, user.uid))) {
+          throw new AuthError('Not a member of this clan', 403);
+        }
+        return this.handleSearch(request, env, corsHeaders, { clanId, memberId: user.uid });
+      }
+
+      // Route: /api/search (every channel the user is a member of)
+      if (url.pathname === '/api/search' && request.method === 'GET') {
+        const user = await authenticate(request, env);
+        return this.handleSearch(request, env, corsHeaders, { memberId: user.uid });
+      }
+
+      // Route: /api/webhooks/:webhookId/:token (the token is the credential, so no authenticate)
+      const webhookMatch = url.pathname.match(/^\/api\/webhooks\/([^\/]+)\/([^\/]+)$/);
+      if (webhookMatch && request.method === 'POST') {
+        return executeWebhook(request, decodeURIComponent(webhookMatch[1]), decodeURIComponent(webhookMatch[2]), env, corsHeaders);
+      }
+
+      // Routes: webhooks and bots (/api/channels/:channelId/webhooks, /api/webhooks/:id, /api/clans/:clanId/bots, /api/bots/...)
+      if (/^\/api\/(channels\/[^\/]+\/webhooks|webhooks\/[^\/]+|clans\/[^\/]+\/bots|bots\/.+)$/.test(url.pathname)) {
+        // Bots manage their own slash commands
+        const user = url.pathname.endsWith('/commands') ? await authenticateUserOrBot(request, env) : await authenticate(request, env);
+        const response = await handleIntegrationRoutes(request, env, corsHeaders, user);
+        if (response) return response;
+      }
+
+      // Routes: outgoing event webhooks (/api/event-subscriptions/...)
+      if (url.pathname.startsWith('/api/event-subscriptions')) {
+        const user = await authenticate(request, env);
+        const response = await handleSubscriptionRoutes(request, env, corsHeaders, user);
+        if (response) return response;
+      }
+
+      // Routes: invites (/api/invites/..., /api/clans/:clanId/invites)
+      if (url.pathname.startsWith('/api/invites') || /^\/api\/clans\/[^\/]+\/invites$/.test(url.pathname)) {
+        const user = await authenticate(request, env);
+        const response = await handleInviteRoutes(request, env, corsHeaders, user);
+        if (response) return response;
+      }
+
+      // Routes: clan and channel management (/api/clans/..., /api/channels/:channelId[/members])
+      if (url.pathname.startsWith('/api/clans') || /^\/api\/channels\/[^\/]+(\/members(\/[^\/]+)?)?$/.test(url.pathname)) {
+        const user = await authenticate(request, env);
+        const response = await handleClanRoutes(request, env, corsHeaders, user);
+        if (response) return response;
+      }
+
+      // Routes: direct messages (/api/conversations/..., /api/users/:userId/conversations)
+      if (url.pathname.startsWith('/api/conversations') || /^\/api\/users\/[^\/]+\/conversations$/.test(url.pathname)) {
+        const user = await authenticate(request, env);
+        const response = await handleConversationRoutes(request, env, corsHeaders, user);
+        if (response) return response;
+      }
+
+      // Routes: edit history and audit log (/api/messages/:messageId/history, /api/channels/:channelId/audit)
+      if (/^\/api\/messages\/[^\/]+\/history$/.test(url.pathname) || /^\/api\/channels\/[^\/]+\/audit$/.test(url.pathname)) {
+        const user = await authenticate(request, env);
+        const response = await handleAuditRoutes(request, env, corsHeaders, user);
+        if (response) return response;
+      }
+
+      // Route: /api/users/:userId/unread
+      const unreadMatch = url.pathname.match(/^\/api\/users\/([^\/]+)\/unread$/);
+      if (unreadMatch && request.method === 'GET') {
+        const user = await authenticate(request, env);
+        if (decodeURIComponent(unreadMatch[1]) !== user.uid) {
+          throw new AuthError('Cannot read another user\'s unread counts', 403);
         }
+        return this.handleUnreadSummary(env, corsHeaders, user);
       }
 
-      // Route: /api/channels/:channelId/websocket
-      const channelMatch = url.pathname.match(/^\/api\/channels\/([^\/]+)\/(websocket|messages)$/);
+      // Route: /api/channels/:channelId/(websocket|messages|moderation|read|pins|scheduled[/:id]|threads/:threadId/messages)
+      const channelMatch = url.pathname.match(/^\/api\/channels\/([^\/]+)\/(websocket|messages|moderation|read|pins|scheduled(?:\/[^\/]+)?|threads\/[^\/]+\/messages)$/);
       if (channelMatch) {
-        const channelId = channelMatch[1];
+        const channelId = decodeURIComponent(channelMatch[1]);
         const endpoint = channelMatch[2];
         
         console.log(`📨 Request for channel: ${channelId}, endpoint: ${endpoint}`);
+
+        // Identity comes from the verified token, never from client-supplied params.
+        // Bots use API keys and can only read and post messages.
+        const user = endpoint === 'messages' ? await authenticateUserOrBot(request, env) : await authenticate(request, env);
+        assertSameUser(request, user);
+
+        // Unknown channels, channels the user can't see and other people's conversations never reach a Durable Object
+        await requireRoomAccess(env, channelId, user);
+
+        // REST sends run through the same checks, storage and broadcast as WebSocket sends
+        if (endpoint === 'messages' && request.method === 'POST') {
+          return postToRoom(env, channelId, senderFor(user), await readJson<WSMessage>(request), corsHeaders);
+        }
         
-        // Get or create chat room
-        const roomId = env.CHAT_ROOMS.idFromName(channelId);
-        const room = env.CHAT_ROOMS.get(roomId);
-        
-        // Store channel ID
-        await room.fetch(new Request('http://internal/set-channel-id', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ channelId }),
-        }));
+        const room = getRoom(env, channelId);
         
         // For WebSocket requests, we need to forward ALL the original request details
         if (endpoint === 'websocket') {
-          // Build the internal URL with query params
+          // Build the internal query params
           const internalUrl = new URL('http://internal/websocket');
           
-          // Copy all query params (token, userId, username, profileImage, etc.)
+          // Copy the remaining query params, then set the identity from the token claims
           url.searchParams.forEach((value, key) => {
-            internalUrl.searchParams.set(key, value);
+            if (!['token', 'userId', 'username', 'profileImage'].includes(key)) {
+              internalUrl.searchParams.set(key, value);
+            }
           });
+          internalUrl.searchParams.set('userId', user.uid);
+          internalUrl.searchParams.set('username', user.username);
+          internalUrl.searchParams.set('profileImage', user.profileImage);
           
           console.log('🔄 Forwarding WebSocket request to Durable Object');
           
           // Forward the request with all headers and query params
-          const response = await room.fetch(new Request(internalUrl.toString(), {
+          const response = await room.fetch(roomRequest(channelId, `websocket${internalUrl.search}`, {
             method: request.method,
             headers: request.headers,
           }));
@@ -111,8 +206,10 @@ const worker = {
             headers: newHeaders,
           });
         } else {
-          // For non-WebSocket requests, handle normally
-          const response = await room.fetch(new Request(`http://internal/${endpoint}${url.search}`, request));
+          // For non-WebSocket requests, handle normally, passing on the verified user
+          const internalRequest = roomRequest(channelId, `${endpoint}${url.search}`, request);
+          internalRequest.headers.set('X-User-Id', user.uid);
+          const response = await room.fetch(internalRequest);
           
           const newHeaders = new Headers(response.headers);
           Object.entries(corsHeaders).forEach(([key, value]) => {
@@ -128,17 +225,40 @@ const worker = {
 
       // Route: /api/attachments/upload
       if (url.pathname === '/api/attachments/upload' && request.method === 'POST') {
-        return this.handleFileUpload(request, env, corsHeaders);
+        const user = await authenticate(request, env);
+        assertSameUser(request, user);
+        return this.handleFileUpload(request, env, corsHeaders, user);
+      }
+
+      // Routes: resumable uploads (/api/attachments/uploads/...)
+      if (url.pathname.startsWith('/api/attachments/uploads')) {
+        const user = await authenticate(request, env);
+        const response = await handleUploadRoutes(request, env, corsHeaders, user);
+        if (response) return response;
+      }
+
+      // Route: /api/attachments/:fileId/thumbnails/:size
+      const thumbnailMatch = url.pathname.match(/^\/api\/attachments\/([^\/]+)\/thumbnails\/(\d+)$/);
+      if (thumbnailMatch && request.method === 'GET') {
+        const user = await authenticate(request, env);
+        return this.handleThumbnailDownload(decodeURIComponent(thumbnailMatch[1]), parseInt(thumbnailMatch[2]), env, corsHeaders, user);
       }
 
       // Route: /api/attachments/:fileId
       if (url.pathname.startsWith('/api/attachments/') && request.method === 'GET') {
-        const fileId = url.pathname.split('/').pop();
-        return this.handleFileDownload(fileId!, env, corsHeaders);
+        const user = await authenticate(request, env);
+        const fileId = decodeURIComponent(url.pathname.split('/').pop()!);
+        return this.handleFileDownload(fileId, env, corsHeaders, user);
       }
 
       return new Response('Not found', { status: 404, headers: corsHeaders });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return new Response(error.message, {
+          status: error.status,
+          headers: corsHeaders
+        });
+      }
       console.error('Worker error:', error);
       return new Response('Internal server error', { 
         status: 500, 
@@ -147,12 +267,67 @@ const worker = {
     }
   },
 
-  async handleFileUpload(request: Request, env: Env, corsHeaders: any): Promise<Response> {
+  // Cron trigger: retention purge
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(runRetention(env).catch(error => {
+      console.error('Retention run failed:', error);
+    }));
+  },
+
+  async handleSearch(request: Request, env: Env, corsHeaders: any, scope: SearchScope): Promise<Response> {
+    const options = parseSearchOptions(new URL(request.url).searchParams);
+    if (!options) {
+      return new Response('Missing search query', { 
+        status: 400, 
+        headers: corsHeaders 
+      });
+    }
+
+    try {
+      const { results, hasMore } = await searchMessages(env.DB, scope, options);
+
+      return new Response(JSON.stringify({
+        results,
+        limit: options.limit,
+        offset: options.offset,
+        hasMore
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      console.error('Search error:', error);
+      return new Response('Search failed', { 
+        status: 500, 
+        headers: corsHeaders 
+      });
+    }
+  },
+
+  async handleUnreadSummary(env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+    try {
+      const channels = await getUnreadSummary(env.DB, user.uid);
+      return new Response(JSON.stringify({
+        channels,
+        totalUnread: channels.reduce((sum, c) => sum + c.unreadCount, 0),
+        totalMentions: channels.reduce((sum, c) => sum + c.mentionCount, 0)
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      console.error('Unread summary error:', error);
+      return new Response('Failed to load unread counts', { 
+        status: 500, 
+        headers: corsHeaders 
+      });
+    }
+  },
+
+  async handleFileUpload(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
     try {
       const formData = await request.formData();
       const file = formData.get('file');
       const channelId = formData.get('channelId');
-      const userId = request.headers.get('X-User-Id');
+      const userId = user.uid;
 
       // Check if file is a File object
       if (!file || typeof file === 'string') {
@@ -162,7 +337,7 @@ const worker = {
         });
       }
 
-      if (!channelId || typeof channelId !== 'string' || !userId) {
+      if (!channelId || typeof channelId !== 'string') {
         return new Response('Missing required fields', { 
           status: 400, 
           headers: corsHeaders 
@@ -172,23 +347,17 @@ const worker = {
       // Now TypeScript knows file is a File object
       const fileObj = file as File;
 
-      // Check file size
-      if (fileObj.size > parseInt(env.MAX_FILE_SIZE)) {
-        return new Response('File too large', { 
-          status: 413, 
-          headers: corsHeaders 
-        });
-      }
+      // Channel access, size, type and quota; large files should use resumable uploads
+      const { contentType } = await assertUploadAllowed(env, user, channelId, fileObj.size, fileObj.type);
 
       // Generate unique key
       const fileId = crypto.randomUUID();
-      const extension = fileObj.name.split('.').pop();
-      const key = `attachments/${channelId}/${fileId}.${extension}`;
+      const key = attachmentKey(channelId, fileId, fileObj.name);
 
       // Upload to R2
       await env.ATTACHMENTS.put(key, fileObj.stream(), {
         httpMetadata: {
-          contentType: fileObj.type,
+          contentType,
         },
         customMetadata: {
           uploadedBy: userId,
@@ -197,18 +366,24 @@ const worker = {
         },
       });
 
-      const attachment = {
+      const record: AttachmentRecord = {
         id: fileId,
+        channelId,
+        uploaderId: userId,
+        r2Key: key,
         filename: fileObj.name,
         size: fileObj.size,
-        contentType: fileObj.type,
-        url: `/api/attachments/${fileId}`,
+        contentType,
+        createdAt: new Date().toISOString(),
+        ...await extractMediaMetadata(env, blobSource(fileObj), channelId, fileId),
       };
+      await insertAttachment(env.DB, record);
 
-      return new Response(JSON.stringify(attachment), {
+      return new Response(JSON.stringify(toAttachment(record)), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     } catch (error) {
+      if (error instanceof HttpError) throw error;
       console.error('Upload error:', error);
       return new Response('Upload failed', { 
         status: 500, 
@@ -217,20 +392,17 @@ const worker = {
     }
   },
 
-  async handleFileDownload(fileId: string, env: Env, corsHeaders: any): Promise<Response> {
+  async handleFileDownload(fileId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
     try {
-      // Find file in R2
-      const list = await env.ATTACHMENTS.list({ prefix: `attachments/` });
-      const file = list.objects.find(obj => obj.key.includes(fileId));
-
-      if (!file) {
+      const key = await this.resolveAttachmentKey(fileId, env, user);
+      if (!key) {
         return new Response('File not found', { 
           status: 404, 
           headers: corsHeaders 
         });
       }
 
-      const object = await env.ATTACHMENTS.get(file.key);
+      const object = await env.ATTACHMENTS.get(key);
       if (!object) {
         return new Response('File not found', { 
           status: 404, 
@@ -248,6 +420,7 @@ const worker = {
 
       return new Response(object.body, { headers });
     } catch (error) {
+      if (error instanceof HttpError) throw error;
       console.error('Download error:', error);
       return new Response('Download failed', { 
         status: 500, 
@@ -255,6 +428,68 @@ const worker = {
       });
     }
   },
+
+  /**
+   * Serves a generated thumbnail. Only recorded uploads have thumbnails, so there's no legacy lookup.
+   */
+  async handleThumbnailDownload(fileId: string, size: number, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+    const attachment = await getAttachment(env.DB, fileId);
+    if (!attachment) {
+      return new Response('File not found', { status: 404, headers: corsHeaders });
+    }
+    await requireRoomAccess(env, attachment.channelId, user);
+
+    const object = attachment.thumbnails?.some(t => t.size === size)
+      ? await env.ATTACHMENTS.get(thumbnailKey(attachment.channelId, fileId, size))
+      : null;
+    if (!object) {
+      return new Response('Thumbnail not found', { status: 404, headers: corsHeaders });
+    }
+
+    const headers = new Headers(corsHeaders);
+    headers.set('Content-Type', object.httpMetadata?.contentType || 'image/webp');
+    headers.set('Content-Length', object.size.toString());
+    // A thumbnail never changes once generated
+    headers.set('Cache-Control', 'private, max-age=31536000, immutable');
+    return new Response(object.body, { headers });
+  },
+
+  /**
+   * R2 key of a file the user may read, or null if there is no such file. Throws 403 when the
+   * user can't read the channel it belongs to. Files uploaded before attachments were recorded
+   * in D1 are found through the message that carries them and recorded on first download.
+   */
+  async resolveAttachmentKey(fileId: string, env: Env, user: AuthUser): Promise<string | null> {
+    const attachment = await getAttachment(env.DB, fileId);
+    if (attachment) {
+      await requireRoomAccess(env, attachment.channelId, user);
+      return attachment.r2Key;
+    }
+
+    const channelId = await findLegacyAttachmentChannel(env.DB, fileId);
+    if (!channelId) return null;
+    await requireRoomAccess(env, channelId, user);
+
+    // Keys are attachments/<channelId>/<fileId>.<ext>, so this is a single-object listing
+    const { objects } = await env.ATTACHMENTS.list({ prefix: `attachments/${channelId}/${fileId}`, limit: 1 });
+    const object = objects[0] && await env.ATTACHMENTS.head(objects[0].key);
+    if (!object) return null;
+
+    await insertAttachment(env.DB, {
+      id: fileId,
+      channelId,
+      uploaderId: object.customMetadata?.uploadedBy || 'unknown',
+      r2Key: object.key,
+      filename: object.customMetadata?.originalName || fileId,
+      size: object.size,
+      contentType: object.httpMetadata?.contentType,
+      createdAt: object.uploaded.toISOString(),
+      messageId: await env.DB.prepare(
+        `SELECT messageId FROM message_attachments WHERE attachmentId = ? LIMIT 1`
+      ).bind(fileId).first<string>('messageId') ?? undefined,
+    });
+    return object.key;
+  },
 };
 
 export default worker;
\ No newline at end of file
@@ -0,0 +1,399 @@
+// src/media.ts
+import { AttachmentThumbnail, MediaMetadata } from './types';
+import { thumbnailKey } from './db/attachments';
+
+export interface MediaEnv {
+  ATTACHMENTS: R2Bucket;
+  // Cloudflare Images; without it uploads still get dimensions and durations, but no thumbnails or placeholder
+  IMAGES?: ImagesBinding;
+}
+
+// Longest side of each generated thumbnail; only sizes smaller than the original are made
+export const THUMBNAIL_SIZES = [320, 960];
+
+// Enough to get past EXIF and ICC segments in front of a JPEG's frame header
+const IMAGE_HEADER_BYTES = 256 * 1024;
+// Matroska puts Info right after the SeekHead, well within this
+const EBML_HEADER_BYTES = 64 * 1024;
+// Each MP4 box or WAV chunk visited costs a range read (an R2 GET for completed uploads); real files
+// reach what we need within a handful, so a file that doesn't is treated as having no known duration
+const MAX_CONTAINER_ENTRIES = 64;
+// Pixels sampled for the blurhash and dominant color
+const PLACEHOLDER_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp';
+
+/**
+ * Random access to an upload's bytes, wherever they are: a request body or an object already in R2.
+ */
+export interface MediaSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+  stream(): Promise<ReadableStream<Uint8Array>>;
+}
+
+export function blobSource(blob: Blob): MediaSource {
+  return {
+    size: blob.size,
+    read: async (start, end) => new Uint8Array(await blob.slice(start, end).arrayBuffer()),
+    stream: async () => blob.stream(),
+  };
+}
+
+export function r2Source(bucket: R2Bucket, key: string, size: number): MediaSource {
+  return {
+    size,
+    read: async (start, end) => {
+      end = Math.min(end, size);
+      if (end <= start) return new Uint8Array(0);
+      const object = await bucket.get(key, { range: { offset: start, length: end - start } });
+      return object ? new Uint8Array(await object.arrayBuffer()) : new Uint8Array(0);
+    },
+    stream: async () => {
+      const object = await bucket.get(key);
+      if (!object) throw new Error(`Missing R2 object ${key}`);
+      return object.body;
+    },
+  };
+}
+
+async function readView(source: MediaSource, start: number, end: number): Promise<DataView> {
+  const bytes = await source.read(start, end);
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Reads what it can from an upload: dimensions of PNG, JPEG, GIF and WebP images and the duration of
+ * MP4/QuickTime, WebM/Matroska and WAV media, from their headers. With the Images binding, images also
+ * get a blurhash, a dominant color and thumbnails, stored in R2 next to the original.
+ * Nothing here fails the upload; unreadable or unsupported files come back with no metadata.
+ */
+export async function extractMediaMetadata(
+  env: MediaEnv,
+  file: MediaSource,
+  channelId: string,
+  attachmentId: string
+): Promise<MediaMetadata> {
+  try {
+    const image = readImageSize(await file.read(0, IMAGE_HEADER_BYTES));
+    if (!image) {
+      const durationSeconds = await readDuration(file);
+      return durationSeconds !== undefined ? { durationSeconds: Math.round(durationSeconds * 1000) / 1000 } : {};
+    }
+
+    const metadata: MediaMetadata = { width: image.width, height: image.height };
+    if (env.IMAGES) {
+      Object.assign(metadata, await imagePlaceholder(env.IMAGES, file));
+      metadata.thumbnails = await createThumbnails(env, file, image, channelId, attachmentId);
+    }
+    return metadata;
+  } catch (error) {
+    console.error('Error reading media metadata:', attachmentId, error);
+    return {};
+  }
+}
+
+async function createThumbnails(
+  env: MediaEnv,
+  file: MediaSource,
+  image: { width: number; height: number },
+  channelId: string,
+  attachmentId: string
+): Promise<AttachmentThumbnail[]> {
+  const thumbnails: AttachmentThumbnail[] = [];
+
+  for (const size of THUMBNAIL_SIZES) {
+    const scale = size / Math.max(image.width, image.height);
+    if (scale >= 1) break;
+
+    const result = await env.IMAGES!.input(await file.stream())
+      .transform({ width: size, height: size, fit: 'scale-down' })
+      .output({ format: 'image/webp', quality: 80 });
+
+    await env.ATTACHMENTS.put(thumbnailKey(channelId, attachmentId, size), result.image(), {
+      httpMetadata: { contentType: result.contentType() },
+    });
+    thumbnails.push({
+      size,
+      width: Math.max(1, Math.round(image.width * scale)),
+      height: Math.max(1, Math.round(image.height * scale)),
+      url: `/api/attachments/${attachmentId}/thumbnails/${size}`,
+    });
+  }
+
+  return thumbnails;
+}
+
+async function imagePlaceholder(images: ImagesBinding, file: MediaSource): Promise<Pick<MediaMetadata, 'blurhash' | 'dominantColor'>> {
+  const result = await images.input(await file.stream())
+    .transform({ width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE, fit: 'squeeze' })
+    .output({ format: 'rgb' });
+  const pixels = new Uint8Array(await result.response().arrayBuffer());
+  if (pixels.length !== PLACEHOLDER_SIZE * PLACEHOLDER_SIZE * 3) return {};
+
+  return encodeBlurhash(pixels, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+}
+
+// --- Image headers ---
+
+function readImageSize(bytes: Uint8Array): { format: ImageFormat; width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number, length: number) =>
+    offset + length <= bytes.length ? String.fromCharCode(...bytes.subarray(offset, offset + length)) : '';
+
+  if (ascii(1, 3) === 'PNG' && ascii(12, 4) === 'IHDR') {
+    return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (ascii(0, 4) === 'GIF8' && bytes.length >= 10) {
+    return { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP' && bytes.length >= 30) {
+    const chunk = ascii(12, 4);
+    if (chunk === 'VP8 ') {
+      return { format: 'webp', width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      const uint24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+      return { format: 'webp', width: uint24(24) + 1, height: uint24(27) + 1 };
+    }
+    return null;
+  }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // Walk the segments up to the first start-of-frame; its height and width follow the precision byte
+    let offset = 2;
+    while (offset + 9 <= bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { format: 'jpeg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+// --- Media durations ---
+
+async function readDuration(file: MediaSource): Promise<number | undefined> {
+  const head = await file.read(0, 16);
+  const ascii = (offset: number, length: number) => String.fromCharCode(...head.subarray(offset, offset + length));
+
+  if (ascii(4, 4) === 'ftyp') return readMp4Duration(file);
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WAVE') return readWavDuration(file);
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) return readMatroskaDuration(file);
+  return undefined;
+}
+
+/**
+ * MP4 and QuickTime keep the duration in moov/mvhd. moov can sit at the end of the file,
+ * so boxes are walked by their headers without reading what's in between.
+ */
+async function readMp4Duration(file: MediaSource): Promise<number | undefined> {
+  const moov = await findBox(file, 0, file.size, 'moov');
+  const mvhd = moov && await findBox(file, moov.start, moov.end, 'mvhd');
+  if (!mvhd) return undefined;
+
+  const view = await readView(file, mvhd.start, Math.min(mvhd.end, mvhd.start + 32));
+  const version = view.getUint8(0);
+  const timescale = version === 1 ? view.getUint32(20) : view.getUint32(12);
+  const duration = version === 1 ? Number(view.getBigUint64(24)) : view.getUint32(16);
+  return timescale ? duration / timescale : undefined;
+}
+
+// The content range of the first box of the given type between start and end
+async function findBox(file: MediaSource, start: number, end: number, type: string): Promise<{ start: number; end: number } | null> {
+  let offset = start;
+  for (let visited = 0; offset + 8 <= end && visited < MAX_CONTAINER_ENTRIES; visited++) {
+    const view = await readView(file, offset, offset + 16);
+    let size = view.getUint32(0);
+    let headerSize = 8;
+    if (size === 1 && view.byteLength >= 16) {
+      size = Number(view.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) return null;
+
+    const boxType = String.fromCharCode(view.getUint8(4), view.getUint8(5), view.getUint8(6), view.getUint8(7));
+    if (boxType === type) {
+      return { start: offset + headerSize, end: Math.min(offset + size, end) };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+async function readWavDuration(file: MediaSource): Promise<number | undefined> {
+  let byteRate = 0;
+  let offset = 12;
+  for (let visited = 0; offset + 8 <= file.size && visited < MAX_CONTAINER_ENTRIES; visited++) {
+    const view = await readView(file, offset, offset + 20);
+    const chunk = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+    const size = view.getUint32(4, true);
+
+    // fmt: format, channels and sample rate come before the byte rate
+    if (chunk === 'fmt ' && view.byteLength >= 20) {
+      byteRate = view.getUint32(16, true);
+    } else if (chunk === 'data') {
+      return byteRate ? size / byteRate : undefined;
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+}
+
+const EBML_IDS = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  cluster: 0x1f43b675,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+};
+
+/**
+ * WebM and Matroska store Segment/Info/Duration in units of TimecodeScale nanoseconds.
+ */
+async function readMatroskaDuration(file: MediaSource): Promise<number | undefined> {
+  const bytes = await file.read(0, EBML_HEADER_BYTES);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // Variable-length integers: the position of the first set bit gives the length.
+  // Ids keep their marker bit, sizes drop it; an all-ones size means "unknown".
+  const readVint = (offset: number, keepMarker: boolean): { value: number; length: number } | null => {
+    const first = bytes[offset];
+    if (!first) return null;
+    const length = Math.clz32(first) - 23;
+    if (length > 8 || offset + length > bytes.length) return null;
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let unknown = value === (0xff >> length);
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + bytes[offset + i];
+      unknown = unknown && bytes[offset + i] === 0xff;
+    }
+    return { value: !keepMarker && unknown ? -1 : value, length };
+  };
+
+  let timecodeScale = 1_000_000;
+  let duration: number | undefined;
+  let offset = 0;
+  let infoEnd = -1;
+
+  while (offset < bytes.length) {
+    const id = readVint(offset, true);
+    const size = id && readVint(offset + id.length, false);
+    if (!id || !size) break;
+    const dataStart = offset + id.length + size.length;
+
+    if (id.value === EBML_IDS.segment) {
+      // Step into the segment to look at its children
+      offset = dataStart;
+      continue;
+    }
+    if (id.value === EBML_IDS.info) {
+      infoEnd = dataStart + size.value;
+      offset = dataStart;
+      continue;
+    }
+    if (id.value === EBML_IDS.cluster || size.value < 0) break;
+
+    if (id.value === EBML_IDS.timecodeScale && dataStart + size.value <= bytes.length) {
+      timecodeScale = 0;
+      for (let i = 0; i < size.value; i++) timecodeScale = timecodeScale * 256 + bytes[dataStart + i];
+    } else if (id.value === EBML_IDS.duration && dataStart + size.value <= bytes.length) {
+      if (size.value === 4) duration = view.getFloat32(dataStart);
+      if (size.value === 8) duration = view.getFloat64(dataStart);
+    }
+
+    offset = dataStart + size.value;
+    if (infoEnd >= 0 && offset >= infoEnd) break;
+  }
+
+  return duration !== undefined ? duration * timecodeScale / 1e9 : undefined;
+}
+
+// --- Blurhash (https://blurha.sh) ---
+
+const BASE83 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+/**
+ * Blurhash of an RGB pixel buffer. The DC component is the image's average color,
+ * which doubles as the dominant color.
+ */
+function encodeBlurhash(pixels: Uint8Array, width: number, height: number): { blurhash: string; dominantColor: string } {
+  const factors: Array<[number, number, number]> = [];
+
+  for (let j = 0; j < BLURHASH_COMPONENTS.y; j++) {
+    for (let i = 0; i < BLURHASH_COMPONENTS.x; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      let r = 0, g = 0, b = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis = normalisation * Math.cos(Math.PI * i * x / width) * Math.cos(Math.PI * j * y / height);
+          const p = (y * width + x) * 3;
+          r += basis * srgbToLinear(pixels[p]);
+          g += basis * srgbToLinear(pixels[p + 1]);
+          b += basis * srgbToLinear(pixels[p + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83((BLURHASH_COMPONENTS.x - 1) + (BLURHASH_COMPONENTS.y - 1) * 9, 1);
+
+  const actualMax = Math.max(...ac.flat().map(Math.abs));
+  const quantisedMax = Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5)));
+  const maxValue = (quantisedMax + 1) / 166;
+  hash += encode83(quantisedMax, 1);
+
+  const dcValue = (linearToSrgb(dc[0]) << 16) + (linearToSrgb(dc[1]) << 8) + linearToSrgb(dc[2]);
+  hash += encode83(dcValue, 4);
+
+  for (const [r, g, b] of ac) {
+    const quantise = (v: number) => Math.max(0, Math.min(18, Math.floor(signPow(v / maxValue, 0.5) * 9 + 9.5)));
+    hash += encode83(quantise(r) * 19 * 19 + quantise(g) * 19 + quantise(b), 2);
+  }
+
+  return { blurhash: hash, dominantColor: `#${dcValue.toString(16).padStart(6, '0')}` };
+}
+
+function encode83(value: number, length: number): string {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    result += BASE83[Math.floor(value / Math.pow(83, length - i)) % 83];
+  }
+  return result;
+}
+
+function srgbToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308 ? Math.trunc(v * 12.92 * 255 + 0.5) : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
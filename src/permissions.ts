@@ -0,0 +1,37 @@
+// src/permissions.ts
+import { ChannelRole } from './types';
+import { HttpError } from './http';
+
+const ROLE_RANK: Record<ChannelRole, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export const CHANNEL_ROLES = Object.keys(ROLE_RANK) as ChannelRole[];
+
+export function isChannelRole(value: unknown): value is ChannelRole {
+  return typeof value === 'string' && Object.hasOwn(ROLE_RANK, value);
+}
+
+/**
+ * True when `role` is at least `required`.
+ */
+export function hasRole(role: ChannelRole | undefined, required: ChannelRole): boolean {
+  return ROLE_RANK[role || 'member'] >= ROLE_RANK[required];
+}
+
+/**
+ * Moderators can only act on members ranked strictly below them.
+ */
+export function outranks(actor: ChannelRole | undefined, target: ChannelRole | undefined): boolean {
+  return ROLE_RANK[actor || 'member'] > ROLE_RANK[target || 'member'];
+}
+
+export class ModerationError extends HttpError {
+  constructor(message: string, status: 400 | 403 | 404 = 403) {
+    super(message, status);
+    this.name = 'ModerationError';
+  }
+}
@@ -0,0 +1,48 @@
+// src/rateLimiter.ts
+export interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * In-memory token buckets keyed by an arbitrary string (e.g. `${userId}:${type}`).
+ * State is lost when the Durable Object hibernates, which only happens once it is idle.
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+
+  /**
+   * Takes a token from the key's bucket. Returns 0 when allowed, otherwise the
+   * number of milliseconds until the next token is available.
+   */
+  consume(key: string, config: BucketConfig, now: number = Date.now()): number {
+    const bucket = this.buckets.get(key) ?? { tokens: config.capacity, updatedAt: now };
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(config.capacity, bucket.tokens + elapsedSeconds * config.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) / config.refillPerSecond) * 1000);
+  }
+
+  /**
+   * Drops buckets that have refilled completely, so the map doesn't grow with every user ever seen.
+   */
+  prune(configs: Record<string, BucketConfig>, now: number = Date.now()): void {
+    for (const [key, bucket] of this.buckets) {
+      const config = configs[key.slice(key.lastIndexOf(':') + 1)];
+      if (!config || bucket.tokens + ((now - bucket.updatedAt) / 1000) * config.refillPerSecond >= config.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+// src/retention.ts
+import { RoomEnv, notifyRoom } from './rooms';
+import {
+  RetentionReport,
+  findExpiredMessageIds,
+  findPurgeableDeletedMessages,
+  findReferencedAttachmentIds,
+  findUnsentAttachments,
+  deleteAttachmentRows,
+  listRetentionPolicies,
+  purgeMessages,
+  recordRetentionRun,
+} from './db/retention';
+import { attachmentIdFromKey, attachmentR2Keys } from './db/attachments';
+import { findExpiredUploadSessions, uploadSessionDeletes } from './db/uploads';
+import { purgeFinishedDeliveries } from './db/subscriptions';
+
+export interface RetentionEnv extends RoomEnv {
+  DB: D1Database;
+  ATTACHMENTS: R2Bucket;
+  CHANNEL_CACHE: KVNamespace;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Soft-deleted messages stay available to moderators (edit history, audit) for this long
+const SOFT_DELETE_GRACE_DAYS = 30;
+// Uploads can be held by a scheduled message for up to 30 days before they are referenced
+const ORPHAN_GRACE_DAYS = 31;
+// Outgoing webhook deliveries stay in the delivery log for this long once they succeed or give up
+const DELIVERY_LOG_DAYS = 30;
+// Bounds on one run; whatever is left over is picked up by the next one
+const PURGE_BATCH_SIZE = 500;
+const MAX_PURGED_PER_CHANNEL = 5000;
+const MAX_SOFT_DELETED_PER_RUN = 10000;
+const MAX_UNSENT_PER_RUN = 1000;
+const MAX_EXPIRED_UPLOADS_PER_RUN = 500;
+const MAX_R2_PAGES_PER_RUN = 20;
+const R2_DELETE_BATCH_SIZE = 1000;
+const R2_CURSOR_KEY = 'retention:r2-cursor';
+
+/**
+ * Enforces channel retention policies, hard-deletes soft-deleted messages past their grace period
+ * and removes R2 attachments no stored message refers to. Run from the worker's cron trigger.
+ */
+export async function runRetention(env: RetentionEnv): Promise<RetentionReport> {
+  const startedAt = new Date().toISOString();
+  const now = Date.now();
+  const channels = new Map<string, { channelId: string; expired: number; softDeleted: number }>();
+  const filesToDelete: string[] = [];
+  const channelStats = (channelId: string) => {
+    if (!channels.has(channelId)) channels.set(channelId, { channelId, expired: 0, softDeleted: 0 });
+    return channels.get(channelId)!;
+  };
+
+  for (const policy of await listRetentionPolicies(env.DB)) {
+    let purged = 0;
+    while (purged < MAX_PURGED_PER_CHANNEL) {
+      const ids = await findExpiredMessageIds(env.DB, policy, now, PURGE_BATCH_SIZE);
+      if (ids.length === 0) break;
+
+      filesToDelete.push(...await purgeMessages(env.DB, ids));
+      purged += ids.length;
+
+      // Let connected clients drop the messages and the room clear them from its cache
+      try {
+        await notifyRoom(env, policy.channelId, 'purged', { messageIds: ids });
+      } catch (error) {
+        console.error('Error notifying room of purge:', policy.channelId, error);
+      }
+    }
+    if (purged) channelStats(policy.channelId).expired += purged;
+  }
+
+  const softDeleteCutoff = new Date(now - SOFT_DELETE_GRACE_DAYS * DAY_MS).toISOString();
+  let softDeleted = 0;
+  while (softDeleted < MAX_SOFT_DELETED_PER_RUN) {
+    const rows = await findPurgeableDeletedMessages(env.DB, softDeleteCutoff, PURGE_BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    filesToDelete.push(...await purgeMessages(env.DB, rows.map(r => r.id)));
+    softDeleted += rows.length;
+    rows.forEach(r => channelStats(r.channelId).softDeleted++);
+  }
+
+  // Uploads that were never sent, then anything in the bucket nothing refers to
+  const unsent = await findUnsentAttachments(env.DB, new Date(now - ORPHAN_GRACE_DAYS * DAY_MS).toISOString(), MAX_UNSENT_PER_RUN);
+  await deleteAttachmentRows(env.DB, unsent.map(a => a.id));
+  filesToDelete.push(...unsent.flatMap(attachmentR2Keys));
+
+  await abortExpiredUploads(env);
+  await purgeFinishedDeliveries(env.DB, new Date(now - DELIVERY_LOG_DAYS * DAY_MS).toISOString());
+
+  for (let i = 0; i < filesToDelete.length; i += R2_DELETE_BATCH_SIZE) {
+    await env.ATTACHMENTS.delete(filesToDelete.slice(i, i + R2_DELETE_BATCH_SIZE));
+  }
+  const attachmentsPurged = filesToDelete.length + await purgeOrphanedAttachments(env, now);
+
+  const report: RetentionReport = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    messagesPurged: Array.from(channels.values()).reduce((sum, c) => sum + c.expired + c.softDeleted, 0),
+    attachmentsPurged,
+    channels: Array.from(channels.values()),
+  };
+
+  await recordRetentionRun(env.DB, report);
+  console.log(`🧹 Retention purged ${report.messagesPurged} messages and ${attachmentsPurged} attachments`);
+  return report;
+}
+
+/**
+ * Aborts resumable uploads that were never completed, freeing the parts they hold in R2.
+ */
+async function abortExpiredUploads(env: RetentionEnv): Promise<void> {
+  const sessions = await findExpiredUploadSessions(env.DB, new Date().toISOString(), MAX_EXPIRED_UPLOADS_PER_RUN);
+
+  for (const session of sessions) {
+    try {
+      await env.ATTACHMENTS.resumeMultipartUpload(session.r2Key, session.r2UploadId).abort();
+    } catch (error) {
+      // Already completed or aborted on the R2 side; the session row still has to go
+      console.error('Error aborting expired upload:', session.id, error);
+    }
+    await env.DB.batch(uploadSessionDeletes(env.DB, session.id));
+  }
+}
+
+/**
+ * Walks the attachments/ prefix a few pages per run, resuming where the last run stopped,
+ * and deletes objects older than the grace period that aren't recorded anywhere.
+ */
+async function purgeOrphanedAttachments(env: RetentionEnv, now: number): Promise<number> {
+  let cursor = (await env.CHANNEL_CACHE.get(R2_CURSOR_KEY)) || undefined;
+  let purged = 0;
+
+  for (let page = 0; page < MAX_R2_PAGES_PER_RUN; page++) {
+    const listing = await env.ATTACHMENTS.list({ prefix: 'attachments/', cursor, limit: 1000 });
+
+    const candidates = listing.objects.filter(o => now - o.uploaded.getTime() > ORPHAN_GRACE_DAYS * DAY_MS);
+    const referenced = await findReferencedAttachmentIds(env.DB, candidates.map(o => attachmentIdFromKey(o.key)));
+    const orphans = candidates.filter(o => !referenced.has(attachmentIdFromKey(o.key))).map(o => o.key);
+
+    if (orphans.length) {
+      await env.ATTACHMENTS.delete(orphans);
+      purged += orphans.length;
+    }
+
+    cursor = listing.truncated ? listing.cursor : undefined;
+    if (!cursor) break;
+  }
+
+  if (cursor) {
+    await env.CHANNEL_CACHE.put(R2_CURSOR_KEY, cursor);
+  } else {
+    await env.CHANNEL_CACHE.delete(R2_CURSOR_KEY);
+  }
+  return purged;
+}
@@ -0,0 +1,28 @@
+// src/rooms.ts
+export interface RoomEnv {
+  CHAT_ROOMS: DurableObjectNamespace;
+}
+
+export function getRoom(env: RoomEnv, channelId: string): DurableObjectStub {
+  return env.CHAT_ROOMS.get(env.CHAT_ROOMS.idFromName(channelId));
+}
+
+/**
+ * Builds a request for a ChatRoom. The X-Channel-Id header tells a new room which channel it serves.
+ */
+export function roomRequest(channelId: string, path: string, init?: RequestInit | Request): Request {
+  const request = new Request(`http://internal/${path}`, init);
+  request.headers.set('X-Channel-Id', channelId);
+  return request;
+}
+
+/**
+ * Sends a JSON notification (channel changes, membership changes) to a channel's ChatRoom.
+ */
+export async function notifyRoom(env: RoomEnv, channelId: string, path: string, body: unknown): Promise<Response> {
+  return getRoom(env, channelId).fetch(roomRequest(channelId, path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+}
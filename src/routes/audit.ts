@@ -0,0 +1,89 @@
+// src/routes/audit.ts
+import type { Env } from '../index';
+import { AuthUser } from '../auth';
+import { HttpError, jsonResponse } from '../http';
+import { hasRole } from '../permissions';
+import { ChannelRole } from '../types';
+import { getChannelAccess } from '../db/clans';
+import { getRevisions, rowToMessage } from '../db/messages';
+import { listAuditLog, parseAuditFilters } from '../db/audit';
+import { requireRoomAccess } from './conversations';
+
+/**
+ * Edit history and audit log routes. Returns null when the path isn't one of ours.
+ *
+ *   GET  /api/messages/:messageId/history   (author and moderators)
+ *   GET  /api/channels/:channelId/audit     (moderators)
+ */
+export async function handleAuditRoutes(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response | null> {
+  const url = new URL(request.url);
+  if (request.method !== 'GET') return null;
+
+  const historyMatch = url.pathname.match(/^\/api\/messages\/([^\/]+)\/history$/);
+  if (historyMatch) {
+    return getMessageHistory(decodeURIComponent(historyMatch[1]), env, corsHeaders, user);
+  }
+
+  const auditMatch = url.pathname.match(/^\/api\/channels\/([^\/]+)\/audit$/);
+  if (auditMatch) {
+    const channelId = decodeURIComponent(auditMatch[1]);
+    await requireModerator(env, channelId, user);
+
+    const filters = parseAuditFilters(url.searchParams);
+    if (!filters) {
+      throw new HttpError('Unknown audit action', 400);
+    }
+    const { entries, hasMore } = await listAuditLog(env.DB, channelId, filters);
+    return jsonResponse({ entries, hasMore }, corsHeaders);
+  }
+
+  return null;
+}
+
+async function getMessageHistory(messageId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  // Deleted messages are included: their history matters most in a dispute
+  const row = await env.DB.prepare(`SELECT * FROM messages WHERE id = ?`).bind(messageId).first<Record<string, unknown>>();
+  if (!row) {
+    throw new HttpError('Message not found', 404);
+  }
+
+  const message = rowToMessage(row);
+  if (message.userId !== user.uid) {
+    await requireModerator(env, message.channelId, user);
+  } else {
+    await requireRoomAccess(env, message.channelId, user);
+  }
+
+  return jsonResponse({
+    message: {
+      id: message.id,
+      channelId: message.channelId,
+      userId: message.userId,
+      content: message.content,
+      timestamp: message.timestamp,
+      edited: message.edited,
+      editedAt: message.editedAt,
+      deleted: message.deleted
+    },
+    revisions: await getRevisions(env.DB, messageId)
+  }, corsHeaders);
+}
+
+// Channel moderators, and clan admins who moderate every channel of their clan
+async function requireModerator(env: Env, channelId: string, user: AuthUser): Promise<void> {
+  await requireRoomAccess(env, channelId, user);
+
+  const access = await getChannelAccess(env.DB, channelId, user.uid);
+  let channelRole = access?.channelRole ?? undefined;
+  if (!access) {
+    // Conversations have no channel row; their roles live in channel_members alone
+    const row = await env.DB.prepare(
+      `SELECT role FROM channel_members WHERE channelId = ? AND userId = ?`
+    ).bind(channelId, user.uid).first<{ role: ChannelRole }>();
+    channelRole = row?.role;
+  }
+
+  if (!hasRole(channelRole, 'moderator') && !hasRole(access?.clanRole ?? undefined, 'admin')) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+}
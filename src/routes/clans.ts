@@ -0,0 +1,469 @@
+// src/routes/clans.ts
+import type { Env } from '../index';
+import { AuthUser } from '../auth';
+import { HttpError, jsonResponse, readJson } from '../http';
+import { hasRole, outranks, isChannelRole } from '../permissions';
+import { notifyRoom } from '../rooms';
+import { auditInsert } from '../db/audit';
+import { ChannelType, ClanRole } from '../types';
+import {
+  CHANNEL_TYPES,
+  ChannelAccess,
+  MAX_TOPIC_LENGTH,
+  canManageChannel,
+  getChannel,
+  getChannelAccess,
+  getClan,
+  getClanRole,
+  listClanChannels,
+  listUserClans,
+} from '../db/clans';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_RETENTION_DAYS = 3650;
+const MIN_RETENTION_MESSAGES = 100;
+const MAX_RETENTION_MESSAGES = 1000000;
+
+/**
+ * Clan and channel management routes. Returns null when the path isn't one of ours.
+ *
+ *   GET|POST          /api/clans
+ *   GET|PATCH|DELETE  /api/clans/:clanId
+ *   GET|POST          /api/clans/:clanId/members
+ *   DELETE            /api/clans/:clanId/members/:userId
+ *   GET|POST          /api/clans/:clanId/channels
+ *   GET|PATCH|DELETE  /api/channels/:channelId
+ *   GET|POST          /api/channels/:channelId/members
+ *   DELETE            /api/channels/:channelId/members/:userId
+ */
+export async function handleClanRoutes(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  const method = request.method;
+
+  if (pathname === '/api/clans') {
+    if (method === 'GET') {
+      return jsonResponse({ clans: await listUserClans(env.DB, user.uid) }, corsHeaders);
+    }
+    if (method === 'POST') return createClan(request, env, corsHeaders, user);
+    return null;
+  }
+
+  const clanMatch = pathname.match(/^\/api\/clans\/([^\/]+)(?:\/(members|channels)(?:\/([^\/]+))?)?$/);
+  if (clanMatch) {
+    const clanId = decodeURIComponent(clanMatch[1]);
+    const section = clanMatch[2];
+    const targetId = clanMatch[3] ? decodeURIComponent(clanMatch[3]) : undefined;
+
+    if (!section) {
+      if (method === 'GET') return getClanDetails(clanId, env, corsHeaders, user);
+      if (method === 'PATCH') return updateClan(request, clanId, env, corsHeaders, user);
+      if (method === 'DELETE') return deleteClan(clanId, env, corsHeaders, user);
+    } else if (section === 'members') {
+      if (method === 'GET' && !targetId) return listClanMembers(clanId, env, corsHeaders, user);
+      if (method === 'POST' && !targetId) return addClanMember(request, clanId, env, corsHeaders, user);
+      if (method === 'DELETE' && targetId) return removeClanMember(clanId, targetId, env, corsHeaders, user);
+    } else if (section === 'channels' && !targetId) {
+      if (method === 'GET') {
+        await requireClanRole(env, clanId, user, 'member');
+        return jsonResponse({ channels: await listClanChannels(env.DB, clanId, user.uid) }, corsHeaders);
+      }
+      if (method === 'POST') return createChannel(request, clanId, env, corsHeaders, user);
+    }
+    return null;
+  }
+
+  const channelMatch = pathname.match(/^\/api\/channels\/([^\/]+)(?:\/members(?:\/([^\/]+))?)?$/);
+  if (channelMatch) {
+    const channelId = decodeURIComponent(channelMatch[1]);
+    const targetId = channelMatch[2] ? decodeURIComponent(channelMatch[2]) : undefined;
+    const isMembers = pathname.endsWith('/members') || !!targetId;
+
+    if (!isMembers) {
+      if (method === 'GET') {
+        const access = await requireChannelAccess(env, channelId, user);
+        return jsonResponse({ channel: access.channel }, corsHeaders);
+      }
+      if (method === 'PATCH') return updateChannel(request, channelId, env, corsHeaders, user);
+      if (method === 'DELETE') return deleteChannel(channelId, env, corsHeaders, user);
+    } else {
+      if (method === 'GET' && !targetId) return listChannelMembers(channelId, env, corsHeaders, user);
+      if (method === 'POST' && !targetId) return addChannelMember(request, channelId, env, corsHeaders, user);
+      if (method === 'DELETE' && targetId) return removeChannelMember(channelId, targetId, env, corsHeaders, user);
+    }
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the user's access to a channel, throwing 404 for unknown channels and 403 when they can't read it.
+ */
+export async function requireChannelAccess(env: Env, channelId: string, user: AuthUser): Promise<ChannelAccess> {
+  const access = await getChannelAccess(env.DB, channelId, user.uid);
+  if (!access) {
+    throw new HttpError('Channel not found', 404);
+  }
+  if (!access.canRead) {
+    throw new HttpError('Not allowed in this channel', 403);
+  }
+  return access;
+}
+
+export async function requireClanRole(env: Env, clanId: string, user: AuthUser, required: ClanRole): Promise<ClanRole> {
+  const clan = await getClan(env.DB, clanId);
+  if (!clan) {
+    throw new HttpError('Clan not found', 404);
+  }
+  const role = await getClanRole(env.DB, clanId, user.uid);
+  if (!role || !hasRole(role, required)) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+  return role;
+}
+
+function isInRange(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function validateName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new HttpError('Name is required and must be at most 100 characters', 400);
+  }
+  return trimmed;
+}
+
+async function createClan(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const body = await readJson<{ name?: string }>(request);
+  const name = validateName(body.name);
+  const now = new Date().toISOString();
+  const clanId = crypto.randomUUID();
+  const channelId = crypto.randomUUID();
+
+  // Every clan starts with a #general channel owned by its creator
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO clans (id, name, ownerId, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)`
+    ).bind(clanId, name, user.uid, now, now),
+    env.DB.prepare(
+      `INSERT INTO clan_members (clanId, userId, role, joinedAt) VALUES (?, ?, 'owner', ?)`
+    ).bind(clanId, user.uid, now),
+    env.DB.prepare(
+      `INSERT INTO channels (id, clanId, name, type, createdBy, createdAt, updatedAt) VALUES (?, ?, 'general', 'text', ?, ?, ?)`
+    ).bind(channelId, clanId, user.uid, now, now),
+    env.DB.prepare(
+      `INSERT INTO channel_members (channelId, userId, role, joinedAt) VALUES (?, ?, 'owner', ?)`
+    ).bind(channelId, user.uid, now),
+  ]);
+
+  return jsonResponse({
+    clan: await getClan(env.DB, clanId),
+    channels: await listClanChannels(env.DB, clanId, user.uid)
+  }, corsHeaders, 201);
+}
+
+async function getClanDetails(clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const role = await requireClanRole(env, clanId, user, 'member');
+  return jsonResponse({
+    clan: await getClan(env.DB, clanId),
+    role,
+    channels: await listClanChannels(env.DB, clanId, user.uid)
+  }, corsHeaders);
+}
+
+async function updateClan(request: Request, clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireClanRole(env, clanId, user, 'admin');
+  const body = await readJson<{ name?: string }>(request);
+  const name = validateName(body.name);
+
+  await env.DB.prepare(
+    `UPDATE clans SET name = ?, updatedAt = ? WHERE id = ?`
+  ).bind(name, new Date().toISOString(), clanId).run();
+
+  return jsonResponse({ clan: await getClan(env.DB, clanId) }, corsHeaders);
+}
+
+async function deleteClan(clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireClanRole(env, clanId, user, 'owner');
+
+  const { results } = await env.DB.prepare(
+    `SELECT id FROM channels WHERE clanId = ?`
+  ).bind(clanId).all<{ id: string }>();
+  const channelIds = results.map(r => r.id);
+
+  await env.DB.batch([
+    ...channelIds.flatMap(id => channelDeleteStatements(env.DB, id)),
+    env.DB.prepare(`DELETE FROM clan_members WHERE clanId = ?`).bind(clanId),
+    env.DB.prepare(`DELETE FROM bots WHERE clanId = ?`).bind(clanId),
+    env.DB.prepare(`DELETE FROM event_subscriptions WHERE clanId = ?`).bind(clanId),
+    env.DB.prepare(`DELETE FROM clans WHERE id = ?`).bind(clanId),
+  ]);
+
+  await Promise.all(channelIds.map(id => notifyRoom(env, id, 'channel-deleted', {})));
+
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+async function listClanMembers(clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireClanRole(env, clanId, user, 'member');
+  const { results } = await env.DB.prepare(
+    `SELECT userId, role, joinedAt FROM clan_members WHERE clanId = ? ORDER BY joinedAt`
+  ).bind(clanId).all();
+  return jsonResponse({ members: results }, corsHeaders);
+}
+
+async function addClanMember(request: Request, clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const actorRole = await requireClanRole(env, clanId, user, 'admin');
+  const body = await readJson<{ userId?: string; role?: string }>(request);
+  const role = body.role ?? 'member';
+
+  if (!body.userId || !isChannelRole(role) || !outranks(actorRole, role)) {
+    throw new HttpError('Invalid member', 400);
+  }
+
+  // Changing an existing member's role also takes outranking the role they have now
+  const existingRole = await getClanRole(env.DB, clanId, body.userId);
+  if (existingRole && !outranks(actorRole, existingRole)) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+
+  await env.DB.prepare(
+    `INSERT INTO clan_members (clanId, userId, role, joinedAt) VALUES (?, ?, ?, ?)
+     ON CONFLICT (clanId, userId) DO UPDATE SET role = excluded.role`
+  ).bind(clanId, body.userId, role, new Date().toISOString()).run();
+
+  return jsonResponse({ member: { userId: body.userId, role } }, corsHeaders, existingRole ? 200 : 201);
+}
+
+async function removeClanMember(clanId: string, targetId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const actorRole = await requireClanRole(env, clanId, user, 'member');
+  const targetRole = await getClanRole(env.DB, clanId, targetId);
+  if (!targetRole) {
+    throw new HttpError('User is not a member of this clan', 404);
+  }
+
+  // Members may leave on their own (except the owner); otherwise you must outrank the target
+  const isSelf = targetId === user.uid;
+  if (isSelf ? targetRole === 'owner' : !(hasRole(actorRole, 'admin') && outranks(actorRole, targetRole))) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+
+  const { results } = await env.DB.prepare(
+    `SELECT chm.channelId FROM channel_members chm JOIN channels c ON c.id = chm.channelId
+     WHERE c.clanId = ? AND chm.userId = ?`
+  ).bind(clanId, targetId).all<{ channelId: string }>();
+
+  // Leaving isn't moderation; removing someone else is logged in each channel they lose
+  const audit = isSelf ? [] : results.map(r => auditInsert(env.DB, {
+    channelId: r.channelId,
+    action: 'member_removed',
+    actorId: user.uid,
+    targetUserId: targetId,
+    details: { clanId },
+  }));
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `DELETE FROM channel_members WHERE userId = ? AND channelId IN (SELECT id FROM channels WHERE clanId = ?)`
+    ).bind(targetId, clanId),
+    env.DB.prepare(`DELETE FROM clan_members WHERE clanId = ? AND userId = ?`).bind(clanId, targetId),
+    ...audit,
+  ]);
+
+  await Promise.all(results.map(r => notifyRoom(env, r.channelId, 'membership', {
+    action: 'removed',
+    userId: targetId,
+    actorId: user.uid
+  })));
+
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+async function createChannel(request: Request, clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireClanRole(env, clanId, user, 'admin');
+  const body = await readJson<{ name?: string; type?: string; topic?: string }>(request);
+  const name = validateName(body.name);
+  const type = (body.type ?? 'text') as ChannelType;
+  if (!CHANNEL_TYPES.includes(type)) {
+    throw new HttpError('Invalid channel type', 400);
+  }
+  if (body.topic && body.topic.length > MAX_TOPIC_LENGTH) {
+    throw new HttpError('Topic is too long', 400);
+  }
+
+  const now = new Date().toISOString();
+  const channelId = crypto.randomUUID();
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO channels (id, clanId, name, type, topic, createdBy, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(channelId, clanId, name, type, body.topic || null, user.uid, now, now),
+    env.DB.prepare(
+      `INSERT INTO channel_members (channelId, userId, role, joinedAt) VALUES (?, ?, 'owner', ?)`
+    ).bind(channelId, user.uid, now),
+  ]);
+
+  return jsonResponse({ channel: await getChannel(env.DB, channelId) }, corsHeaders, 201);
+}
+
+async function updateChannel(request: Request, channelId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const access = await requireChannelAccess(env, channelId, user);
+  if (!canManageChannel(access)) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+
+  const body = await readJson<{
+    name?: string;
+    topic?: string | null;
+    archived?: boolean;
+    pinRole?: string;
+    retentionDays?: number | null;
+    retentionMaxMessages?: number | null;
+  }>(request);
+  const sets: string[] = [];
+  const params: any[] = [];
+
+  if (body.name !== undefined) {
+    sets.push('name = ?');
+    params.push(validateName(body.name));
+  }
+  if (body.topic !== undefined) {
+    if (body.topic && body.topic.length > MAX_TOPIC_LENGTH) {
+      throw new HttpError('Topic is too long', 400);
+    }
+    sets.push('topic = ?');
+    params.push(body.topic || null);
+  }
+  if (body.archived !== undefined) {
+    sets.push('archived = ?');
+    params.push(body.archived ? 1 : 0);
+  }
+  if (body.pinRole !== undefined) {
+    if (!isChannelRole(body.pinRole)) {
+      throw new HttpError('Invalid pin role', 400);
+    }
+    sets.push('pinRole = ?');
+    params.push(body.pinRole);
+  }
+  if (body.retentionDays !== undefined) {
+    if (body.retentionDays !== null && !isInRange(body.retentionDays, 1, MAX_RETENTION_DAYS)) {
+      throw new HttpError(`retentionDays must be between 1 and ${MAX_RETENTION_DAYS}, or null`, 400);
+    }
+    sets.push('retentionDays = ?');
+    params.push(body.retentionDays);
+  }
+  if (body.retentionMaxMessages !== undefined) {
+    if (body.retentionMaxMessages !== null && !isInRange(body.retentionMaxMessages, MIN_RETENTION_MESSAGES, MAX_RETENTION_MESSAGES)) {
+      throw new HttpError(`retentionMaxMessages must be between ${MIN_RETENTION_MESSAGES} and ${MAX_RETENTION_MESSAGES}, or null`, 400);
+    }
+    sets.push('retentionMaxMessages = ?');
+    params.push(body.retentionMaxMessages);
+  }
+  if (sets.length === 0) {
+    throw new HttpError('Nothing to update', 400);
+  }
+
+  sets.push('updatedAt = ?');
+  params.push(new Date().toISOString());
+  await env.DB.prepare(
+    `UPDATE channels SET ${sets.join(', ')} WHERE id = ?`
+  ).bind(...params, channelId).run();
+
+  const channel = await getChannel(env.DB, channelId);
+  await notifyRoom(env, channelId, 'channel-updated', { channel, actorId: user.uid });
+
+  return jsonResponse({ channel }, corsHeaders);
+}
+
+async function deleteChannel(channelId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const access = await requireChannelAccess(env, channelId, user);
+  if (!hasRole(access.clanRole ?? undefined, 'admin')) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+
+  await env.DB.batch(channelDeleteStatements(env.DB, channelId));
+  await notifyRoom(env, channelId, 'channel-deleted', {});
+
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+async function listChannelMembers(channelId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireChannelAccess(env, channelId, user);
+  const { results } = await env.DB.prepare(
+    `SELECT userId, role, joinedAt, mutedUntil FROM channel_members WHERE channelId = ? ORDER BY joinedAt`
+  ).bind(channelId).all();
+  return jsonResponse({ members: results }, corsHeaders);
+}
+
+async function addChannelMember(request: Request, channelId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const access = await requireChannelAccess(env, channelId, user);
+  if (!canManageChannel(access)) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+
+  const body = await readJson<{ userId?: string }>(request);
+  if (!body.userId || !(await getClanRole(env.DB, access.channel.clanId, body.userId))) {
+    throw new HttpError('User is not a member of this clan', 400);
+  }
+
+  const result = await env.DB.prepare(
+    `INSERT OR IGNORE INTO channel_members (channelId, userId, role, joinedAt) VALUES (?, ?, 'member', ?)`
+  ).bind(channelId, body.userId, new Date().toISOString()).run();
+
+  if (result.meta.changes) {
+    await notifyRoom(env, channelId, 'membership', { action: 'added', userId: body.userId, actorId: user.uid });
+  }
+
+  return jsonResponse({ member: { userId: body.userId, role: 'member' } }, corsHeaders, 201);
+}
+
+async function removeChannelMember(channelId: string, targetId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const access = await requireChannelAccess(env, channelId, user);
+  // Public channels are open to every clan member, so dropping the row wouldn't keep anyone out
+  if (access.channel.type !== 'private') {
+    throw new HttpError('Members can only be removed from private channels; ban the user instead', 400);
+  }
+  const target = await env.DB.prepare(
+    `SELECT role FROM channel_members WHERE channelId = ? AND userId = ?`
+  ).bind(channelId, targetId).first<{ role: ClanRole }>();
+  if (!target) {
+    throw new HttpError('User is not a member of this channel', 404);
+  }
+
+  const isSelf = targetId === user.uid;
+  const actorRole = hasRole(access.clanRole ?? undefined, 'admin') ? 'admin' : access.channelRole ?? undefined;
+  if (!isSelf && !(canManageChannel(access) && outranks(actorRole, target.role))) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(`DELETE FROM channel_members WHERE channelId = ? AND userId = ?`).bind(channelId, targetId),
+    ...(isSelf ? [] : [auditInsert(env.DB, {
+      channelId,
+      action: 'member_removed',
+      actorId: user.uid,
+      targetUserId: targetId,
+    })]),
+  ]);
+  await notifyRoom(env, channelId, 'membership', { action: 'removed', userId: targetId, actorId: user.uid });
+
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+// Deleting a channel drops its membership and read state and soft-deletes its messages
+function channelDeleteStatements(db: D1Database, channelId: string): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `UPDATE messages SET deleted = 1, deletedAt = ? WHERE channelId = ? AND deleted = 0`
+    ).bind(new Date().toISOString(), channelId),
+    db.prepare(`DELETE FROM channel_members WHERE channelId = ?`).bind(channelId),
+    db.prepare(`DELETE FROM channel_reads WHERE channelId = ?`).bind(channelId),
+    db.prepare(`DELETE FROM channel_bans WHERE channelId = ?`).bind(channelId),
+    db.prepare(`DELETE FROM channel_pins WHERE channelId = ?`).bind(channelId),
+    db.prepare(`DELETE FROM webhooks WHERE channelId = ?`).bind(channelId),
+    db.prepare(`DELETE FROM event_deliveries WHERE channelId = ?`).bind(channelId),
+    db.prepare(`DELETE FROM event_subscriptions WHERE channelId = ?`).bind(channelId),
+    db.prepare(`DELETE FROM channels WHERE id = ?`).bind(channelId),
+  ];
+}
@@ -0,0 +1,94 @@
+// src/routes/conversations.ts
+import type { Env } from '../index';
+import { AuthUser } from '../auth';
+import { HttpError, jsonResponse, readJson } from '../http';
+import { Conversation } from '../types';
+import {
+  getConversation,
+  isConversationId,
+  listUserConversations,
+  MAX_GROUP_SIZE,
+  openConversation,
+} from '../db/conversations';
+import { requireChannelAccess } from './clans';
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Direct message routes. Returns null when the path isn't one of ours.
+ * Messages, reactions, reads and attachments go through the usual /api/channels/:conversationId/* routes.
+ *
+ *   POST  /api/conversations
+ *   GET   /api/conversations/:conversationId
+ *   GET   /api/users/:userId/conversations
+ */
+export async function handleConversationRoutes(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  const method = request.method;
+
+  if (pathname === '/api/conversations') {
+    return method === 'POST' ? createConversation(request, env, corsHeaders, user) : null;
+  }
+
+  const conversationMatch = pathname.match(/^\/api\/conversations\/([^\/]+)$/);
+  if (conversationMatch && method === 'GET') {
+    const conversation = await requireConversationAccess(env, decodeURIComponent(conversationMatch[1]), user);
+    return jsonResponse({ conversation }, corsHeaders);
+  }
+
+  const userMatch = pathname.match(/^\/api\/users\/([^\/]+)\/conversations$/);
+  if (userMatch && method === 'GET') {
+    if (decodeURIComponent(userMatch[1]) !== user.uid) {
+      throw new HttpError('Cannot list another user\'s conversations', 403);
+    }
+    return jsonResponse({ conversations: await listUserConversations(env.DB, user.uid) }, corsHeaders);
+  }
+
+  return null;
+}
+
+/**
+ * Only participants may see a conversation. Throws 404 for unknown conversations and 403 for everyone else.
+ */
+export async function requireConversationAccess(env: Env, conversationId: string, user: AuthUser): Promise<Conversation> {
+  const conversation = isConversationId(conversationId) ? await getConversation(env.DB, conversationId) : null;
+  if (!conversation) {
+    throw new HttpError('Conversation not found', 404);
+  }
+  if (!conversation.participantIds.includes(user.uid)) {
+    throw new HttpError('Not a participant in this conversation', 403);
+  }
+  return conversation;
+}
+
+/**
+ * Access check for anything backed by a ChatRoom: clan channels and conversations share the same routes.
+ */
+export async function requireRoomAccess(env: Env, roomId: string, user: AuthUser): Promise<void> {
+  if (isConversationId(roomId)) {
+    await requireConversationAccess(env, roomId, user);
+  } else {
+    await requireChannelAccess(env, roomId, user);
+  }
+}
+
+async function createConversation(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const body = await readJson<{ userIds?: string[]; name?: string }>(request);
+  if (!Array.isArray(body.userIds) || !body.userIds.every(id => typeof id === 'string' && id)) {
+    throw new HttpError('userIds must be a list of user ids', 400);
+  }
+
+  const participantIds = [...new Set([user.uid, ...body.userIds])];
+  if (participantIds.length < 2) {
+    throw new HttpError('A conversation needs at least one other participant', 400);
+  }
+  if (participantIds.length > MAX_GROUP_SIZE) {
+    throw new HttpError(`Group conversations are limited to ${MAX_GROUP_SIZE} participants`, 400);
+  }
+  if (body.name !== undefined && (typeof body.name !== 'string' || body.name.length > MAX_NAME_LENGTH)) {
+    throw new HttpError('Name must be at most 100 characters', 400);
+  }
+
+  const { conversation, created } = await openConversation(env.DB, participantIds, user.uid, body.name?.trim());
+  return jsonResponse({ conversation }, corsHeaders, created ? 201 : 200);
+}
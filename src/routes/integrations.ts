@@ -0,0 +1,390 @@
+// src/routes/integrations.ts
+import type { Env } from '../index';
+import { AuthError, AuthUser, authenticate } from '../auth';
+import { HttpError, jsonResponse, readJson } from '../http';
+import { notifyRoom } from '../rooms';
+import { AuditAction, Bot, MessageSender, SlashCommand, Webhook, WSMessage } from '../types';
+import { BUILTIN_COMMANDS, COMMAND_NAME_PATTERN } from '../commands';
+import {
+  BOT_ID_PREFIX,
+  MAX_BOTS_PER_CLAN,
+  MAX_COMMANDS_PER_BOT,
+  MAX_WEBHOOKS_PER_CHANNEL,
+  WEBHOOK_ID_PREFIX,
+  botCommandStatements,
+  botDeletes,
+  botInserts,
+  botKeyUpdate,
+  countChannelWebhooks,
+  countClanBots,
+  findTakenCommandNames,
+  generateSecret,
+  getBot,
+  getWebhook,
+  hashSecret,
+  listBotCommands,
+  listChannelWebhooks,
+  listClanBots,
+  touchWebhook,
+  verifyBotKey,
+  verifyWebhookToken,
+  webhookInsert,
+} from '../db/integrations';
+import { auditInsert, clanAuditInserts } from '../db/audit';
+import { canManageChannel } from '../db/clans';
+import { requireChannelAccess, requireClanRole } from './clans';
+
+const MAX_DISPLAY_NAME_LENGTH = 80;
+const MAX_AVATAR_URL_LENGTH = 2048;
+const MAX_COMMAND_TEXT_LENGTH = 100;
+
+/**
+ * Webhook and bot management routes. Returns null when the path isn't one of ours.
+ * Executing a webhook needs no user and goes through executeWebhook instead.
+ *
+ *   GET|POST  /api/channels/:channelId/webhooks   (channel managers)
+ *   DELETE    /api/webhooks/:webhookId
+ *   GET|POST  /api/clans/:clanId/bots             (clan admins)
+ *   DELETE    /api/bots/:botId
+ *   POST      /api/bots/:botId/key                (replace the API key)
+ *   GET|PUT   /api/bots/:botId/commands           (clan admins or the bot itself)
+ */
+export async function handleIntegrationRoutes(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  const method = request.method;
+
+  const channelMatch = pathname.match(/^\/api\/channels\/([^\/]+)\/webhooks$/);
+  if (channelMatch) {
+    const channelId = decodeURIComponent(channelMatch[1]);
+    if (method === 'GET') return listWebhooks(channelId, env, corsHeaders, user);
+    if (method === 'POST') return createWebhook(request, channelId, env, corsHeaders, user);
+    return null;
+  }
+
+  const webhookMatch = pathname.match(/^\/api\/webhooks\/([^\/]+)$/);
+  if (webhookMatch) {
+    return method === 'DELETE' ? deleteWebhook(decodeURIComponent(webhookMatch[1]), env, corsHeaders, user) : null;
+  }
+
+  const clanMatch = pathname.match(/^\/api\/clans\/([^\/]+)\/bots$/);
+  if (clanMatch) {
+    const clanId = decodeURIComponent(clanMatch[1]);
+    if (method === 'GET') {
+      await requireClanRole(env, clanId, user, 'admin');
+      return jsonResponse({ bots: await listClanBots(env.DB, clanId) }, corsHeaders);
+    }
+    if (method === 'POST') return createBot(request, clanId, env, corsHeaders, user);
+    return null;
+  }
+
+  const botMatch = pathname.match(/^\/api\/bots\/([^\/]+)(?:\/(key|commands))?$/);
+  if (botMatch) {
+    const botId = decodeURIComponent(botMatch[1]);
+    if (botMatch[2] === 'key') {
+      return method === 'POST' ? rotateBotKey(botId, env, corsHeaders, user) : null;
+    }
+    if (botMatch[2] === 'commands') {
+      if (method === 'GET') {
+        await requireBotOrAdmin(env, botId, user);
+        return jsonResponse({ commands: await listBotCommands(env.DB, botId) }, corsHeaders);
+      }
+      if (method === 'PUT') return setBotCommands(request, botId, env, corsHeaders, user);
+      return null;
+    }
+    return method === 'DELETE' ? deleteBot(botId, env, corsHeaders, user) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Like authenticate, but also accepts `Authorization: Bot <apiKey>`. Only routes bots may use call this.
+ */
+export async function authenticateUserOrBot(request: Request, env: Env): Promise<AuthUser> {
+  const header = request.headers.get('Authorization');
+  if (!header?.startsWith('Bot ')) {
+    return authenticate(request, env);
+  }
+
+  const bot = await verifyBotKey(env.DB, header.slice(4).trim());
+  if (!bot) {
+    throw new AuthError('Invalid bot API key');
+  }
+  return { uid: bot.id, username: bot.name, profileImage: bot.avatarUrl || '', claims: {}, bot: true };
+}
+
+/**
+ * Posts a message through the channel's ChatRoom, which runs the same commands, checks, storage and
+ * broadcast as a WebSocket send. A command with nothing to post answers { command, content, botId }.
+ */
+export async function postToRoom(env: Env, channelId: string, sender: MessageSender, message: WSMessage, corsHeaders: any): Promise<Response> {
+  const response = await notifyRoom(env, channelId, 'messages', { sender, message });
+  return new Response(response.body, {
+    status: response.status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+export function senderFor(user: AuthUser): MessageSender {
+  return {
+    userId: user.uid,
+    username: user.username,
+    avatar: user.profileImage,
+    authorType: user.bot ? 'bot' : undefined,
+  };
+}
+
+/**
+ * POST /api/webhooks/:webhookId/:token. The token in the URL is the only credential.
+ * Body: { content, username?, avatarUrl?, threadId?, replyTo?, mentions? }; username and avatarUrl
+ * override the webhook's defaults for this message.
+ */
+export async function executeWebhook(
+  request: Request,
+  webhookId: string,
+  token: string,
+  env: Env,
+  corsHeaders: any
+): Promise<Response> {
+  const webhook = await verifyWebhookToken(env.DB, webhookId, token);
+  if (!webhook) {
+    throw new HttpError('Unknown webhook', 404);
+  }
+
+  const body = await readJson<{
+    content?: string;
+    username?: string;
+    avatarUrl?: string;
+    threadId?: string;
+    replyTo?: string;
+    mentions?: string[];
+  }>(request);
+
+  const sender: MessageSender = {
+    userId: webhook.id,
+    username: body.username !== undefined ? validateDisplayName(body.username) : webhook.name,
+    avatar: body.avatarUrl !== undefined ? validateAvatarUrl(body.avatarUrl) ?? '' : webhook.avatarUrl ?? '',
+    authorType: 'webhook',
+  };
+
+  // Uploads belong to a user, so webhooks post text only
+  const response = await postToRoom(env, webhook.channelId, sender, {
+    type: 'send_message',
+    content: body.content,
+    threadId: body.threadId,
+    replyTo: body.replyTo,
+    mentions: body.mentions,
+  }, corsHeaders);
+
+  if (response.ok) {
+    await touchWebhook(env.DB, webhook.id);
+  }
+  return response;
+}
+
+async function listWebhooks(channelId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireChannelManager(env, channelId, user);
+  return jsonResponse({ webhooks: await listChannelWebhooks(env.DB, channelId) }, corsHeaders);
+}
+
+async function createWebhook(request: Request, channelId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireChannelManager(env, channelId, user);
+  const body = await readJson<{ name?: string; avatarUrl?: string }>(request);
+
+  if (await countChannelWebhooks(env.DB, channelId) >= MAX_WEBHOOKS_PER_CHANNEL) {
+    throw new HttpError(`A channel can have at most ${MAX_WEBHOOKS_PER_CHANNEL} webhooks`, 400);
+  }
+
+  const webhook: Webhook = {
+    id: `${WEBHOOK_ID_PREFIX}${crypto.randomUUID()}`,
+    channelId,
+    name: validateDisplayName(body.name),
+    avatarUrl: validateAvatarUrl(body.avatarUrl),
+    createdBy: user.uid,
+    createdAt: new Date().toISOString(),
+  };
+  const token = generateSecret();
+  await env.DB.batch([
+    webhookInsert(env.DB, webhook, await hashSecret(token)),
+    auditInsert(env.DB, {
+      channelId,
+      action: 'webhook_created',
+      actorId: user.uid,
+      targetUserId: webhook.id,
+      details: { name: webhook.name },
+    }),
+  ]);
+
+  // The token is only ever shown here
+  return jsonResponse({ webhook, token, url: `/api/webhooks/${webhook.id}/${token}` }, corsHeaders, 201);
+}
+
+async function deleteWebhook(webhookId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const webhook = await getWebhook(env.DB, webhookId);
+  if (!webhook) {
+    throw new HttpError('Webhook not found', 404);
+  }
+  await requireChannelManager(env, webhook.channelId, user);
+
+  await env.DB.batch([
+    env.DB.prepare(`DELETE FROM webhooks WHERE id = ?`).bind(webhookId),
+    auditInsert(env.DB, {
+      channelId: webhook.channelId,
+      action: 'webhook_deleted',
+      actorId: user.uid,
+      targetUserId: webhook.id,
+      details: { name: webhook.name },
+    }),
+  ]);
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+async function createBot(request: Request, clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireClanRole(env, clanId, user, 'admin');
+  const body = await readJson<{ name?: string; avatarUrl?: string }>(request);
+
+  if (await countClanBots(env.DB, clanId) >= MAX_BOTS_PER_CLAN) {
+    throw new HttpError(`A clan can have at most ${MAX_BOTS_PER_CLAN} bots`, 400);
+  }
+
+  const bot: Bot = {
+    id: `${BOT_ID_PREFIX}${crypto.randomUUID()}`,
+    clanId,
+    name: validateDisplayName(body.name),
+    avatarUrl: validateAvatarUrl(body.avatarUrl),
+    createdBy: user.uid,
+    createdAt: new Date().toISOString(),
+  };
+  const apiKey = `${bot.id}.${generateSecret()}`;
+  await env.DB.batch([
+    ...botInserts(env.DB, bot, await hashSecret(apiKey)),
+    ...await botAuditInserts(env, bot, 'bot_created', user),
+  ]);
+
+  // The key is only ever shown here and when it is replaced
+  return jsonResponse({ bot, apiKey }, corsHeaders, 201);
+}
+
+async function rotateBotKey(botId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const bot = await requireBotAdmin(env, botId, user);
+  const apiKey = `${bot.id}.${generateSecret()}`;
+  await env.DB.batch([
+    botKeyUpdate(env.DB, bot.id, await hashSecret(apiKey)),
+    ...await botAuditInserts(env, bot, 'bot_key_rotated', user),
+  ]);
+  return jsonResponse({ bot, apiKey }, corsHeaders);
+}
+
+async function deleteBot(botId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const bot = await requireBotAdmin(env, botId, user);
+  await env.DB.batch([
+    ...botDeletes(env.DB, bot),
+    ...await botAuditInserts(env, bot, 'bot_deleted', user),
+  ]);
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+/**
+ * Replaces the bot's slash commands. Body: { url, commands: [{ name, description, usage? }] }; an empty
+ * list unregisters them all. Invocations are POSTed to url.
+ */
+async function setBotCommands(request: Request, botId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const bot = await requireBotOrAdmin(env, botId, user);
+  const body = await readJson<{ url?: string | null; commands?: unknown }>(request);
+
+  if (!Array.isArray(body.commands) || body.commands.length > MAX_COMMANDS_PER_BOT) {
+    throw new HttpError(`commands must be an array of at most ${MAX_COMMANDS_PER_BOT} commands`, 400);
+  }
+  const commands = body.commands.map(validateCommand);
+  const names = commands.map(c => c.name);
+  if (new Set(names).size !== names.length) {
+    throw new HttpError('Command names must be unique', 400);
+  }
+
+  const url = commands.length ? validateHttpsUrl(body.url, 'url') ?? null : null;
+  if (!url && commands.length) {
+    throw new HttpError('url is required', 400);
+  }
+
+  const taken = await findTakenCommandNames(env.DB, bot.clanId, bot.id, names);
+  if (taken.length) {
+    throw new HttpError(`Already registered by another bot: ${taken.join(', ')}`, 409);
+  }
+
+  await env.DB.batch(botCommandStatements(env.DB, bot, url, commands));
+  return jsonResponse({ commands: await listBotCommands(env.DB, bot.id) }, corsHeaders);
+}
+
+// Bots belong to the whole clan, so changes to them are logged in every channel they can reach
+function botAuditInserts(env: Env, bot: Bot, action: AuditAction, user: AuthUser): Promise<D1PreparedStatement[]> {
+  return clanAuditInserts(env.DB, bot.clanId, { action, actorId: user.uid, targetUserId: bot.id, details: { name: bot.name } });
+}
+
+async function requireChannelManager(env: Env, channelId: string, user: AuthUser): Promise<void> {
+  const access = await requireChannelAccess(env, channelId, user);
+  if (!canManageChannel(access)) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+}
+
+// A bot may manage its own commands; otherwise it takes a clan admin
+async function requireBotOrAdmin(env: Env, botId: string, user: AuthUser): Promise<Bot> {
+  if (!user.bot) return requireBotAdmin(env, botId, user);
+
+  const bot = user.uid === botId ? await getBot(env.DB, botId) : null;
+  if (!bot) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+  return bot;
+}
+
+async function requireBotAdmin(env: Env, botId: string, user: AuthUser): Promise<Bot> {
+  const bot = await getBot(env.DB, botId);
+  if (!bot) {
+    throw new HttpError('Bot not found', 404);
+  }
+  await requireClanRole(env, bot.clanId, user, 'admin');
+  return bot;
+}
+
+function validateDisplayName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_DISPLAY_NAME_LENGTH) {
+    throw new HttpError(`Name is required and must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`, 400);
+  }
+  return trimmed;
+}
+
+// Avatars are shown to every client, so only https URLs are accepted
+function validateAvatarUrl(url: unknown): string | undefined {
+  return validateHttpsUrl(url, 'avatarUrl');
+}
+
+function validateHttpsUrl(url: unknown, field: string): string | undefined {
+  if (url === undefined || url === null || url === '') return undefined;
+  if (typeof url !== 'string' || url.length > MAX_AVATAR_URL_LENGTH || !/^https:\/\/[^\s]+$/.test(url)) {
+    throw new HttpError(`${field} must be an https URL`, 400);
+  }
+  return url;
+}
+
+function validateCommand(input: unknown): Pick<SlashCommand, 'name' | 'description' | 'usage'> {
+  const command: Record<string, unknown> = typeof input === 'object' && input !== null ? input as Record<string, unknown> : {};
+  const name = typeof command.name === 'string' ? command.name.toLowerCase() : '';
+  if (!COMMAND_NAME_PATTERN.test(name)) {
+    throw new HttpError('Command names are 1-32 letters, digits, - or _', 400);
+  }
+  if (BUILTIN_COMMANDS.some(c => c.name === name)) {
+    throw new HttpError(`/${name} is a built-in command`, 409);
+  }
+
+  const description = typeof command.description === 'string' ? command.description.trim() : '';
+  if (!description || description.length > MAX_COMMAND_TEXT_LENGTH) {
+    throw new HttpError(`Command descriptions are required and at most ${MAX_COMMAND_TEXT_LENGTH} characters`, 400);
+  }
+  const usage = command.usage;
+  if (usage !== undefined && (typeof usage !== 'string' || usage.length > MAX_COMMAND_TEXT_LENGTH)) {
+    throw new HttpError(`Command usage must be at most ${MAX_COMMAND_TEXT_LENGTH} characters`, 400);
+  }
+  return { name, description, usage: usage || undefined };
+}
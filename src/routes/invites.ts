@@ -0,0 +1,243 @@
+// src/routes/invites.ts
+import type { Env } from '../index';
+import { AuthUser } from '../auth';
+import { HttpError, jsonResponse, readJson } from '../http';
+import { hasRole } from '../permissions';
+import { notifyRoom } from '../rooms';
+import { Channel, Invite } from '../types';
+import { canManageChannel, getChannel, getClan, getClanRole, listClanChannels, rowToChannel } from '../db/clans';
+import {
+  claimInvite,
+  generateInviteCode,
+  getInvite,
+  invalidateInvite,
+  inviteUnusableReason,
+  rowToInvite,
+} from '../db/invites';
+import { requireChannelAccess, requireClanRole } from './clans';
+
+const MAX_INVITE_USES = 1000;
+const MAX_INVITE_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Invite routes. Returns null when the path isn't one of ours.
+ *
+ *   POST    /api/invites
+ *   GET     /api/invites/:code          (preview)
+ *   DELETE  /api/invites/:code          (revoke)
+ *   POST    /api/invites/:code/accept
+ *   GET     /api/clans/:clanId/invites
+ */
+export async function handleInviteRoutes(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  const method = request.method;
+
+  if (pathname === '/api/invites') {
+    return method === 'POST' ? createInvite(request, env, corsHeaders, user) : null;
+  }
+
+  const clanMatch = pathname.match(/^\/api\/clans\/([^\/]+)\/invites$/);
+  if (clanMatch) {
+    return method === 'GET' ? listClanInvites(decodeURIComponent(clanMatch[1]), env, corsHeaders, user) : null;
+  }
+
+  const inviteMatch = pathname.match(/^\/api\/invites\/([^\/]+)(\/accept)?$/);
+  if (inviteMatch) {
+    const code = decodeURIComponent(inviteMatch[1]);
+    if (inviteMatch[2]) {
+      return method === 'POST' ? acceptInvite(code, env, corsHeaders, user) : null;
+    }
+    if (method === 'GET') return previewInvite(code, env, corsHeaders);
+    if (method === 'DELETE') return revokeInvite(code, env, corsHeaders, user);
+  }
+
+  return null;
+}
+
+async function createInvite(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const body = await readJson<{ clanId?: string; channelId?: string; maxUses?: number; expiresIn?: number }>(request);
+
+  let clanId: string;
+  if (body.channelId) {
+    // Private channels are invite-only for their admins; public ones for clan moderators
+    const access = await requireChannelAccess(env, body.channelId, user);
+    const allowed = access.channel.type === 'private'
+      ? canManageChannel(access)
+      : hasRole(access.clanRole ?? undefined, 'moderator');
+    if (!allowed) {
+      throw new HttpError('Insufficient permissions', 403);
+    }
+    clanId = access.channel.clanId;
+  } else if (body.clanId) {
+    await requireClanRole(env, body.clanId, user, 'moderator');
+    clanId = body.clanId;
+  } else {
+    throw new HttpError('clanId or channelId is required', 400);
+  }
+
+  if (body.maxUses !== undefined && !(Number.isInteger(body.maxUses) && body.maxUses > 0 && body.maxUses <= MAX_INVITE_USES)) {
+    throw new HttpError(`maxUses must be between 1 and ${MAX_INVITE_USES}`, 400);
+  }
+  if (body.expiresIn !== undefined && !(Number.isInteger(body.expiresIn) && body.expiresIn > 0 && body.expiresIn <= MAX_INVITE_AGE_SECONDS)) {
+    throw new HttpError(`expiresIn must be between 1 and ${MAX_INVITE_AGE_SECONDS} seconds`, 400);
+  }
+
+  const now = new Date();
+  const invite: Invite = {
+    code: generateInviteCode(),
+    clanId,
+    channelId: body.channelId,
+    createdBy: user.uid,
+    createdAt: now.toISOString(),
+    expiresAt: body.expiresIn ? new Date(now.getTime() + body.expiresIn * 1000).toISOString() : undefined,
+    maxUses: body.maxUses,
+    uses: 0,
+    revoked: false,
+  };
+
+  await env.DB.prepare(
+    `INSERT INTO invites (code, clanId, channelId, createdBy, createdAt, expiresAt, maxUses) VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    invite.code,
+    invite.clanId,
+    invite.channelId ?? null,
+    invite.createdBy,
+    invite.createdAt,
+    invite.expiresAt ?? null,
+    invite.maxUses ?? null
+  ).run();
+
+  return jsonResponse({ invite }, corsHeaders, 201);
+}
+
+async function listClanInvites(clanId: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  await requireClanRole(env, clanId, user, 'admin');
+  const { results } = await env.DB.prepare(
+    `SELECT * FROM invites WHERE clanId = ? AND revoked = 0 ORDER BY createdAt DESC`
+  ).bind(clanId).all<Record<string, unknown>>();
+  return jsonResponse({ invites: results.map(rowToInvite) }, corsHeaders);
+}
+
+/**
+ * What an invite leads to, so clients can show "Join X?" before accepting.
+ */
+async function previewInvite(code: string, env: Env, corsHeaders: any): Promise<Response> {
+  const invite = await getInvite(env.DB, env.CHANNEL_CACHE, code);
+  const clan = invite && await getClan(env.DB, invite.clanId);
+  if (!invite || !clan) {
+    throw new HttpError('Invite not found', 404);
+  }
+
+  const channel = invite.channelId ? await getChannel(env.DB, invite.channelId) : null;
+  const memberCount = await env.DB.prepare(
+    `SELECT COUNT(*) AS count FROM clan_members WHERE clanId = ?`
+  ).bind(clan.id).first<number>('count');
+  const reason = invite.channelId && !channel
+    ? 'Invite channel no longer exists'
+    : inviteUnusableReason(invite, new Date().toISOString());
+
+  return jsonResponse({
+    invite: { code: invite.code, expiresAt: invite.expiresAt, maxUses: invite.maxUses, uses: invite.uses },
+    clan: { id: clan.id, name: clan.name, memberCount: memberCount || 0 },
+    channel: channel && { id: channel.id, name: channel.name, type: channel.type },
+    valid: !reason,
+    reason: reason || undefined
+  }, corsHeaders);
+}
+
+async function revokeInvite(code: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const invite = await getInvite(env.DB, env.CHANNEL_CACHE, code);
+  if (!invite) {
+    throw new HttpError('Invite not found', 404);
+  }
+
+  // The creator can always revoke their own invite; clan admins can revoke any
+  if (invite.createdBy !== user.uid) {
+    await requireClanRole(env, invite.clanId, user, 'admin');
+  }
+
+  await env.DB.prepare(`UPDATE invites SET revoked = 1 WHERE code = ?`).bind(code).run();
+  await invalidateInvite(env.CHANNEL_CACHE, code);
+
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+async function acceptInvite(code: string, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const invite = await getInvite(env.DB, env.CHANNEL_CACHE, code);
+  if (!invite) {
+    throw new HttpError('Invite not found', 404);
+  }
+
+  const now = new Date().toISOString();
+  const reason = inviteUnusableReason(invite, now);
+  if (reason) {
+    throw new HttpError(reason, 410);
+  }
+
+  const invited = invite.channelId ? await getChannel(env.DB, invite.channelId) : null;
+  if (invite.channelId && !invited) {
+    throw new HttpError('Invite channel no longer exists', 410);
+  }
+  // Null when the clan has no open public channel; joining the clan still goes ahead
+  const channel = await getLandingChannel(env, invite.clanId, invited);
+
+  const banned = channel && await env.DB.prepare(
+    `SELECT 1 FROM channel_bans WHERE channelId = ? AND userId = ? AND (expiresAt IS NULL OR expiresAt > ?)`
+  ).bind(channel.id, user.uid, now).first();
+  if (banned) {
+    throw new HttpError('Banned from this channel', 403);
+  }
+
+  const clanRole = await getClanRole(env.DB, invite.clanId, user.uid);
+  const channelMember = channel && await env.DB.prepare(
+    `SELECT 1 FROM channel_members WHERE channelId = ? AND userId = ?`
+  ).bind(channel.id, user.uid).first();
+
+  // Only joining the clan or a private channel uses up the invite; re-opening one you've used is free
+  if (!clanRole || (channel?.type === 'private' && !channelMember)) {
+    if (!(await claimInvite(env.DB, code, now))) {
+      await invalidateInvite(env.CHANNEL_CACHE, code);
+      throw new HttpError('Invite is no longer valid', 410);
+    }
+    await invalidateInvite(env.CHANNEL_CACHE, code);
+  }
+
+  if (!clanRole || (channel && !channelMember)) {
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT OR IGNORE INTO clan_members (clanId, userId, role, joinedAt) VALUES (?, ?, 'member', ?)`
+      ).bind(invite.clanId, user.uid, now),
+      ...(channel ? [env.DB.prepare(
+        `INSERT OR IGNORE INTO channel_members (channelId, userId, role, joinedAt) VALUES (?, ?, 'member', ?)`
+      ).bind(channel.id, user.uid, now)] : []),
+    ]);
+  }
+
+  if (channel && !channelMember) {
+    await notifyRoom(env, channel.id, 'membership', {
+      action: 'added',
+      userId: user.uid,
+      actorId: invite.createdBy,
+      username: user.username,
+      profileImage: user.profileImage
+    });
+  }
+
+  return jsonResponse({
+    clan: await getClan(env.DB, invite.clanId),
+    channel,
+    channels: await listClanChannels(env.DB, invite.clanId, user.uid)
+  }, corsHeaders);
+}
+
+// Channel invites land in their channel; clan invites, and channel invites whose channel has since
+// been archived, in the clan's oldest public channel that isn't archived
+async function getLandingChannel(env: Env, clanId: string, invited: Channel | null): Promise<Channel | null> {
+  if (invited && !invited.archived) {
+    return invited;
+  }
+  const row = await env.DB.prepare(
+    `SELECT * FROM channels WHERE clanId = ? AND type != 'private' AND archived = 0 ORDER BY createdAt LIMIT 1`
+  ).bind(clanId).first<Record<string, unknown>>();
+  return row ? rowToChannel(row) : null;
+}
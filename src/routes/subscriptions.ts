@@ -0,0 +1,193 @@
+// src/routes/subscriptions.ts
+import type { Env } from '../index';
+import { AuthUser } from '../auth';
+import { HttpError, jsonResponse, readJson } from '../http';
+import { notifyRoom } from '../rooms';
+import { EventSubscription, SubscribableEvent } from '../types';
+import { generateSecret } from '../db/integrations';
+import {
+  MAX_SUBSCRIPTIONS_PER_CLAN,
+  SUBSCRIBABLE_EVENTS,
+  countClanSubscriptions,
+  getDelivery,
+  getSubscription,
+  insertRedelivery,
+  insertSubscription,
+  listDeliveries,
+  listSubscriptions,
+  parseDeliveryFilters,
+  subscriptionDeletes,
+  updateSubscription,
+} from '../db/subscriptions';
+import { canManageChannel } from '../db/clans';
+import { requireChannelAccess, requireClanRole } from './clans';
+
+const MAX_URL_LENGTH = 2048;
+
+/**
+ * Outgoing webhook routes: subscriptions that receive a channel's or a whole clan's events as
+ * signed POSTs, and their delivery logs. Returns null when the path isn't one of ours.
+ * Clan-wide subscriptions are managed by clan admins, channel ones by channel managers.
+ *
+ *   GET|POST          /api/event-subscriptions          (GET takes ?clanId= or ?channelId=)
+ *   GET|PATCH|DELETE  /api/event-subscriptions/:subscriptionId
+ *   GET               /api/event-subscriptions/:subscriptionId/deliveries   (?status=&before=&limit=)
+ *   POST              /api/event-subscriptions/:subscriptionId/deliveries/:deliveryId/redeliver
+ */
+export async function handleSubscriptionRoutes(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response | null> {
+  const url = new URL(request.url);
+  const method = request.method;
+
+  if (url.pathname === '/api/event-subscriptions') {
+    if (method === 'GET') return listScopeSubscriptions(url.searchParams, env, corsHeaders, user);
+    if (method === 'POST') return createSubscription(request, env, corsHeaders, user);
+    return null;
+  }
+
+  const match = url.pathname.match(/^\/api\/event-subscriptions\/([^\/]+)(?:\/deliveries(?:\/([^\/]+)\/redeliver)?)?$/);
+  if (!match) return null;
+
+  const subscription = await getSubscription(env.DB, decodeURIComponent(match[1]));
+  if (!subscription) {
+    throw new HttpError('Subscription not found', 404);
+  }
+  await requireSubscriptionManager(env, subscription, user);
+
+  if (match[2]) {
+    return method === 'POST' ? redeliver(subscription, decodeURIComponent(match[2]), env, corsHeaders) : null;
+  }
+  if (url.pathname.endsWith('/deliveries')) {
+    if (method !== 'GET') return null;
+    const filters = parseDeliveryFilters(url.searchParams);
+    if (!filters) {
+      throw new HttpError('Unknown delivery status', 400);
+    }
+    return jsonResponse(await listDeliveries(env.DB, subscription.id, filters), corsHeaders);
+  }
+
+  if (method === 'GET') return jsonResponse({ subscription }, corsHeaders);
+  if (method === 'PATCH') return editSubscription(request, subscription, env, corsHeaders);
+  if (method === 'DELETE') {
+    await env.DB.batch(subscriptionDeletes(env.DB, subscription.id));
+    return jsonResponse({ success: true }, corsHeaders);
+  }
+  return null;
+}
+
+async function listScopeSubscriptions(params: URLSearchParams, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const channelId = params.get('channelId');
+  if (channelId) {
+    const clanId = await requireChannelManager(env, channelId, user);
+    return jsonResponse({ subscriptions: await listSubscriptions(env.DB, clanId, channelId) }, corsHeaders);
+  }
+
+  const clanId = params.get('clanId');
+  if (!clanId) {
+    throw new HttpError('clanId or channelId is required', 400);
+  }
+  await requireClanRole(env, clanId, user, 'admin');
+  return jsonResponse({ subscriptions: await listSubscriptions(env.DB, clanId) }, corsHeaders);
+}
+
+async function createSubscription(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const body = await readJson<{ clanId?: string; channelId?: string; url?: string; events?: unknown }>(request);
+
+  let clanId: string;
+  if (body.channelId) {
+    clanId = await requireChannelManager(env, body.channelId, user);
+  } else if (body.clanId) {
+    await requireClanRole(env, body.clanId, user, 'admin');
+    clanId = body.clanId;
+  } else {
+    throw new HttpError('clanId or channelId is required', 400);
+  }
+
+  if (await countClanSubscriptions(env.DB, clanId) >= MAX_SUBSCRIPTIONS_PER_CLAN) {
+    throw new HttpError(`A clan can have at most ${MAX_SUBSCRIPTIONS_PER_CLAN} event subscriptions`, 400);
+  }
+
+  const subscription: EventSubscription = {
+    id: crypto.randomUUID(),
+    clanId,
+    channelId: body.channelId || undefined,
+    url: validateUrl(body.url),
+    events: validateEvents(body.events),
+    active: true,
+    createdBy: user.uid,
+    createdAt: new Date().toISOString(),
+  };
+  const secret = generateSecret();
+  await insertSubscription(env.DB, subscription, secret);
+
+  // The signing secret is only ever shown here
+  return jsonResponse({ subscription, secret }, corsHeaders, 201);
+}
+
+// Rooms cache their subscriptions briefly, so changes reach deliveries within a minute
+async function editSubscription(request: Request, subscription: EventSubscription, env: Env, corsHeaders: any): Promise<Response> {
+  const body = await readJson<{ url?: string; events?: unknown; active?: boolean }>(request);
+
+  if (body.active !== undefined && typeof body.active !== 'boolean') {
+    throw new HttpError('active must be a boolean', 400);
+  }
+  const changes = {
+    url: body.url !== undefined ? validateUrl(body.url) : undefined,
+    events: body.events !== undefined ? validateEvents(body.events) : undefined,
+    active: body.active,
+  };
+  await updateSubscription(env.DB, subscription.id, changes);
+
+  return jsonResponse({ subscription: await getSubscription(env.DB, subscription.id) }, corsHeaders);
+}
+
+async function redeliver(subscription: EventSubscription, deliveryId: string, env: Env, corsHeaders: any): Promise<Response> {
+  const original = await getDelivery(env.DB, deliveryId);
+  if (!original || original.subscriptionId !== subscription.id) {
+    throw new HttpError('Delivery not found', 404);
+  }
+  if (!subscription.active) {
+    throw new HttpError('Subscription is disabled', 409);
+  }
+
+  const delivery = await insertRedelivery(env.DB, original);
+  // The channel's room sends it, so it goes through the same signing and retries as the original
+  await notifyRoom(env, delivery.channelId, 'deliveries', {});
+
+  return jsonResponse({ delivery }, corsHeaders, 201);
+}
+
+async function requireSubscriptionManager(env: Env, subscription: EventSubscription, user: AuthUser): Promise<void> {
+  if (subscription.channelId) {
+    await requireChannelManager(env, subscription.channelId, user);
+  } else {
+    await requireClanRole(env, subscription.clanId, user, 'admin');
+  }
+}
+
+// Returns the channel's clan
+async function requireChannelManager(env: Env, channelId: string, user: AuthUser): Promise<string> {
+  const access = await requireChannelAccess(env, channelId, user);
+  if (!canManageChannel(access)) {
+    throw new HttpError('Insufficient permissions', 403);
+  }
+  return access.channel.clanId;
+}
+
+// Payloads carry message content, so they only go out over https
+function validateUrl(url: unknown): string {
+  if (typeof url !== 'string' || url.length > MAX_URL_LENGTH || !/^https:\/\/[^\s]+$/.test(url)) {
+    throw new HttpError('url must be an https URL', 400);
+  }
+  return url;
+}
+
+function validateEvents(events: unknown): SubscribableEvent[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new HttpError('events must be a non-empty array', 400);
+  }
+  const unknown = events.filter(e => !SUBSCRIBABLE_EVENTS.includes(e));
+  if (unknown.length) {
+    throw new HttpError(`Unknown events: ${unknown.join(', ')}`, 400);
+  }
+  return Array.from(new Set(events as SubscribableEvent[]));
+}
@@ -0,0 +1,295 @@
+// src/routes/uploads.ts
+import type { Env } from '../index';
+import { AuthUser } from '../auth';
+import { HttpError, jsonResponse, readJson } from '../http';
+import { AttachmentRecord, UploadSession } from '../types';
+import { attachmentInsert, attachmentKey, attachmentR2Keys, toAttachment } from '../db/attachments';
+import {
+  expectedPartSize,
+  getUploadSession,
+  getUploadUsage,
+  insertUploadSession,
+  listUploadedParts,
+  recordUploadedPart,
+  setUploadStatus,
+  totalParts,
+  uploadSessionDeletes,
+} from '../db/uploads';
+import { extractMediaMetadata, r2Source } from '../media';
+import { requireRoomAccess } from './conversations';
+
+// R2 requires every part but the last to be at least 5 MiB
+const PART_SIZE = 5 * 1024 * 1024;
+const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ACTIVE_UPLOADS = 5;
+// Bytes a user may upload per rolling 24 hours, unless UPLOAD_QUOTA_BYTES says otherwise
+const DEFAULT_UPLOAD_QUOTA_BYTES = 1_000_000_000;
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Anything that could run script when served inline (HTML, SVG, XML) stays out
+const ALLOWED_CONTENT_TYPES = [
+  /^image\/(png|jpeg|gif|webp|avif|heic|heif)$/,
+  /^video\/(mp4|quicktime|webm)$/,
+  /^audio\/(mpeg|mp4|aac|ogg|wav|x-wav|webm|x-m4a)$/,
+  /^application\/(pdf|zip|json|octet-stream)$/,
+  /^text\/(plain|csv|markdown)$/,
+];
+
+/**
+ * Resumable upload routes, on top of R2 multipart uploads. Returns null when the path isn't one of ours.
+ *
+ *   POST    /api/attachments/uploads                          (initiate)
+ *   GET     /api/attachments/uploads/:uploadId                (which parts landed)
+ *   PUT     /api/attachments/uploads/:uploadId/parts/:n       (raw part bytes, n from 1)
+ *   POST    /api/attachments/uploads/:uploadId/complete
+ *   DELETE  /api/attachments/uploads/:uploadId                (abort)
+ */
+export async function handleUploadRoutes(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  const method = request.method;
+
+  if (pathname === '/api/attachments/uploads') {
+    return method === 'POST' ? initiateUpload(request, env, corsHeaders, user) : null;
+  }
+
+  const match = pathname.match(/^\/api\/attachments\/uploads\/([^\/]+)(?:\/(complete|parts\/(\d+)))?$/);
+  if (!match) return null;
+
+  const session = await getUploadSession(env.DB, decodeURIComponent(match[1]));
+  // Sessions are private to their uploader; others get the same 404 as a missing one
+  if (!session || session.uploaderId !== user.uid) {
+    throw new HttpError('Upload not found', 404);
+  }
+
+  if (match[3]) {
+    return method === 'PUT' ? uploadPart(request, session, parseInt(match[3]), env, corsHeaders) : null;
+  }
+  if (match[2] === 'complete') {
+    return method === 'POST' ? completeUpload(session, env, corsHeaders, user) : null;
+  }
+  if (method === 'GET') return jsonResponse(await uploadStatus(env, session), corsHeaders);
+  if (method === 'DELETE') return abortUpload(session, env, corsHeaders);
+  return null;
+}
+
+/**
+ * Checks that the user may upload a file of this size and type to the channel, and that it fits in
+ * their quota. Used by single-request uploads too. Returns the normalized content type and the
+ * user's current usage.
+ */
+export async function assertUploadAllowed(
+  env: Env,
+  user: AuthUser,
+  channelId: string,
+  size: number,
+  contentType: string | undefined
+): Promise<{ contentType: string; activeUploads: number }> {
+  // Uploads are scoped to a channel the uploader can read
+  await requireRoomAccess(env, channelId, user);
+
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new HttpError('File is empty', 400);
+  }
+  if (size > parseInt(env.MAX_FILE_SIZE)) {
+    throw new HttpError('File too large', 413);
+  }
+
+  const type = normalizeContentType(contentType);
+  if (!ALLOWED_CONTENT_TYPES.some(pattern => pattern.test(type))) {
+    throw new HttpError(`File type ${type} is not allowed`, 415);
+  }
+
+  const quota = parseInt(env.UPLOAD_QUOTA_BYTES || '') || DEFAULT_UPLOAD_QUOTA_BYTES;
+  const usage = await getUploadUsage(env.DB, user.uid, new Date(Date.now() - QUOTA_WINDOW_MS).toISOString());
+  if (usage.bytes + size > quota) {
+    throw new HttpError('Upload quota exceeded, try again later', 429);
+  }
+  return { contentType: type, activeUploads: usage.activeUploads };
+}
+
+// Parameters are dropped; clients that don't know the type send nothing
+export function normalizeContentType(contentType: string | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+}
+
+async function initiateUpload(request: Request, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  const body = await readJson<{ channelId?: string; filename?: string; contentType?: string; size?: number }>(request);
+
+  if (!body.channelId || typeof body.channelId !== 'string') {
+    throw new HttpError('channelId is required', 400);
+  }
+  if (!body.filename || typeof body.filename !== 'string' || body.filename.length > 255) {
+    throw new HttpError('filename is required', 400);
+  }
+
+  const { contentType, activeUploads } = await assertUploadAllowed(env, user, body.channelId, Number(body.size), body.contentType);
+  if (activeUploads >= MAX_ACTIVE_UPLOADS) {
+    throw new HttpError(`At most ${MAX_ACTIVE_UPLOADS} uploads can be in progress at once`, 429);
+  }
+
+  const id = crypto.randomUUID();
+  const key = attachmentKey(body.channelId, id, body.filename);
+
+  const multipart = await env.ATTACHMENTS.createMultipartUpload(key, {
+    httpMetadata: { contentType },
+    customMetadata: {
+      uploadedBy: user.uid,
+      originalName: body.filename,
+      channelId: body.channelId,
+    },
+  });
+
+  const now = Date.now();
+  const session: UploadSession = {
+    id,
+    channelId: body.channelId,
+    uploaderId: user.uid,
+    r2Key: key,
+    r2UploadId: multipart.uploadId,
+    filename: body.filename,
+    contentType,
+    size: Number(body.size),
+    partSize: PART_SIZE,
+    status: 'active',
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + UPLOAD_SESSION_TTL_MS).toISOString(),
+  };
+  await insertUploadSession(env.DB, session);
+
+  return jsonResponse(await uploadStatus(env, session), corsHeaders, 201);
+}
+
+async function uploadPart(
+  request: Request,
+  session: UploadSession,
+  partNumber: number,
+  env: Env,
+  corsHeaders: any
+): Promise<Response> {
+  assertUsable(session);
+  if (partNumber < 1 || partNumber > totalParts(session)) {
+    throw new HttpError(`Part number must be between 1 and ${totalParts(session)}`, 400);
+  }
+
+  // Parts are at most PART_SIZE, so buffering one is fine and lets R2 see its length up front
+  const expected = expectedPartSize(session, partNumber);
+  const declared = request.headers.get('Content-Length');
+  if (declared && parseInt(declared) !== expected) {
+    throw new HttpError(`Part ${partNumber} must be ${expected} bytes, got ${declared}`, 400);
+  }
+  const bytes = await request.arrayBuffer();
+  if (bytes.byteLength !== expected) {
+    throw new HttpError(`Part ${partNumber} must be ${expected} bytes, got ${bytes.byteLength}`, 400);
+  }
+
+  const multipart = env.ATTACHMENTS.resumeMultipartUpload(session.r2Key, session.r2UploadId);
+  const part = await multipart.uploadPart(partNumber, bytes);
+  await recordUploadedPart(env.DB, session.id, part, bytes.byteLength);
+
+  return jsonResponse({ partNumber, size: bytes.byteLength }, corsHeaders);
+}
+
+async function completeUpload(session: UploadSession, env: Env, corsHeaders: any, user: AuthUser): Promise<Response> {
+  assertUsable(session);
+  // The uploader may have lost access to the channel since starting
+  await requireRoomAccess(env, session.channelId, user);
+
+  const parts = await listUploadedParts(env.DB, session.id);
+  const missing = missingParts(session, parts);
+  if (missing.length) {
+    throw new HttpError(`Missing parts: ${missing.join(', ')}`, 409);
+  }
+
+  if (!(await setUploadStatus(env.DB, session.id, 'active', 'completing'))) {
+    throw new HttpError('Upload is already being completed', 409);
+  }
+
+  let object: R2Object;
+  try {
+    object = await env.ATTACHMENTS.resumeMultipartUpload(session.r2Key, session.r2UploadId).complete(parts);
+  } catch (error) {
+    // Let the client retry; the parts are still there
+    await setUploadStatus(env.DB, session.id, 'completing', 'active');
+    throw error;
+  }
+
+  const record: AttachmentRecord = {
+    id: session.id,
+    channelId: session.channelId,
+    uploaderId: session.uploaderId,
+    r2Key: session.r2Key,
+    filename: session.filename,
+    size: object.size,
+    contentType: session.contentType,
+    createdAt: new Date().toISOString(),
+    ...await extractMediaMetadata(env, r2Source(env.ATTACHMENTS, session.r2Key, object.size), session.channelId, session.id),
+  };
+
+  try {
+    await env.DB.batch([
+      attachmentInsert(env.DB, record),
+      ...uploadSessionDeletes(env.DB, session.id),
+    ]);
+  } catch (error) {
+    // The multipart upload is gone once completed, so there is nothing to retry: drop the file and
+    // the session rather than leave a session stuck in 'completing' that counts against the uploader
+    await discardCompletedUpload(env, record);
+    throw error;
+  }
+
+  return jsonResponse(toAttachment(record), corsHeaders);
+}
+
+async function discardCompletedUpload(env: Env, record: AttachmentRecord): Promise<void> {
+  try {
+    await env.ATTACHMENTS.delete(attachmentR2Keys(record));
+    await env.DB.batch(uploadSessionDeletes(env.DB, record.id));
+  } catch (error) {
+    // The retention sweep removes the orphaned object and the expired session later
+    console.error('Error discarding completed upload:', record.id, error);
+  }
+}
+
+async function abortUpload(session: UploadSession, env: Env, corsHeaders: any): Promise<Response> {
+  if (session.status === 'completing') {
+    throw new HttpError('Upload is being completed', 409);
+  }
+
+  await env.ATTACHMENTS.resumeMultipartUpload(session.r2Key, session.r2UploadId).abort();
+  await env.DB.batch(uploadSessionDeletes(env.DB, session.id));
+  return jsonResponse({ success: true }, corsHeaders);
+}
+
+async function uploadStatus(env: Env, session: UploadSession) {
+  const parts = await listUploadedParts(env.DB, session.id);
+  return {
+    uploadId: session.id,
+    channelId: session.channelId,
+    filename: session.filename,
+    contentType: session.contentType,
+    size: session.size,
+    partSize: session.partSize,
+    totalParts: totalParts(session),
+    uploadedParts: parts.map(p => p.partNumber),
+    status: session.status,
+    expiresAt: session.expiresAt,
+  };
+}
+
+function assertUsable(session: UploadSession): void {
+  if (session.status !== 'active') {
+    throw new HttpError('Upload is being completed', 409);
+  }
+  if (session.expiresAt < new Date().toISOString()) {
+    throw new HttpError('Upload expired', 410);
+  }
+}
+
+function missingParts(session: UploadSession, parts: R2UploadedPart[]): number[] {
+  const uploaded = new Set(parts.map(p => p.partNumber));
+  const missing: number[] = [];
+  for (let n = 1; n <= totalParts(session); n++) {
+    if (!uploaded.has(n)) missing.push(n);
+  }
+  return missing;
+}
@@ -1,28 +1,95 @@
 // src/types.ts
 export interface WSMessage {
   type: 'send_message' | 'edit_message' | 'delete_message' | 'typing_start' | 'typing_stop' | 
-        'reaction_add' | 'reaction_remove' | 'ping';
+        'reaction_add' | 'reaction_remove' | 'ping' |
+        'kick_user' | 'mute_user' | 'unmute_user' | 'ban_user' | 'unban_user' | 'set_role' | 'set_slow_mode' |
+        'mark_read' | 'pin_message' | 'unpin_message' |
+        'schedule_message' | 'edit_scheduled' | 'cancel_scheduled' | 'list_scheduled' | 'list_commands' |
+        'poll_vote' | 'poll_close';
   content?: string;
   messageId?: string;
   threadId?: string;
   replyTo?: string;
-  attachments?: any[];
+  // Uploads to send, as returned by /api/attachments/upload; only their ids are read
+  attachments?: Array<Pick<Attachment, 'id'>>;
   reaction?: string;
   mentions?: string[];
   localId?: string;
+  // Moderation actions
+  userId?: string;
+  role?: ChannelRole;
+  duration?: number; // seconds; omit for a permanent ban, 0 turns slow mode off
+  reason?: string;
+  // Scheduled messages and reminders
+  sendAt?: string;
+  scheduledId?: string;
+  reminder?: boolean;
+  // send_message: makes the message a poll, with content set to its question
+  poll?: PollInput;
+  // poll_vote: the options picked; they replace the voter's earlier votes, and an empty list withdraws them
+  optionIds?: string[];
 }
 
 export interface WSResponse {
   type: 'init' | 'new_message' | 'message_edited' | 'message_deleted' | 'typing_start' | 'typing_stop' | 
-        'user_joined' | 'user_left' | 'user_list' | 'reaction_added' | 'reaction_removed' | 'error' | 'pong';
+        'user_joined' | 'user_left' | 'user_list' | 'reaction_added' | 'reaction_removed' | 'error' | 'pong' |
+        'message_ack' | 'replay' | 'resync_required' | 'thread_updated' |
+        'member_kicked' | 'member_muted' | 'member_unmuted' | 'member_banned' | 'member_unbanned' | 'member_role_updated' |
+        'slow_mode_updated' | 'read_updated' | 'channel_updated' | 'channel_deleted' | 'member_added' | 'member_removed' |
+        'message_pinned' | 'message_unpinned' |
+        'message_scheduled' | 'scheduled_updated' | 'scheduled_cancelled' | 'scheduled_list' | 'scheduled_failed' | 'reminder' |
+        'messages_purged' | 'command_response' | 'commands_list' |
+        'poll_updated' | 'poll_voted';
   message?: Message;
   messages?: Message[];
+  channel?: Channel | null;
+  channelId?: string;
   messageId?: string;
+  messageIds?: string[];
+  pin?: PinnedMessage;
+  pins?: PinnedMessage[];
+  scheduled?: ScheduledMessage;
+  scheduledMessages?: ScheduledMessage[];
+  // Echoes WSMessage.localId on message_ack and on errors for that request
+  localId?: string;
+  requestType?: WSMessage['type'];
+  timestamp?: string;
+  // Room event sequence number: set on every published event, and the current position on init/replay
+  seq?: number;
+  threadId?: string;
+  threadReplyCount?: number;
+  lastReplyAt?: string;
+  events?: WSResponse[];
   userId?: string;
   user?: { uid: string };
   users?: Array<{ uid: string }>;
   reaction?: string;
   error?: string;
+  // Machine-readable error code ('rate_limited', 'slow_mode') and ms until the request may be retried
+  code?: string;
+  retryAfter?: number;
+  slowModeSeconds?: number;
+  // Read receipts: init carries readState/reads, read_updated carries lastReadAt
+  readState?: UnreadSummary | null;
+  reads?: ReadPosition[];
+  lastReadAt?: string;
+  // Moderation events: who acted, and the resulting state of the target member
+  actorId?: string;
+  deletedBy?: string;
+  role?: ChannelRole;
+  mutedUntil?: string;
+  expiresAt?: string | null;
+  reason?: string;
+  // Slash commands: the command a command_response answers and its private output, and commands_list
+  command?: string;
+  content?: string;
+  botId?: string;
+  commands?: SlashCommand[];
+  // Polls: the current tallies on poll_updated; poll_voted tells the voter which options they hold,
+  // and init carries pollVotes (messageId -> optionIds) for the loaded messages
+  poll?: Poll;
+  optionIds?: string[];
+  pollVotes?: Record<string, string[]>;
 }
 
 export interface Message {
@@ -35,10 +102,16 @@ export interface Message {
   editedAt?: string;
   deleted: boolean;
   threadId?: string;
+  // Set on thread roots; replies themselves are kept out of the main timeline
+  threadReplyCount?: number;
+  lastReplyAt?: string;
   replyTo?: string;
-  attachments: any[];
+  attachments: Attachment[];
   reactions: Record<string, string[]>;
   mentions: string[];
+  // Set on messages posted by a bot or an incoming webhook; user then carries its display name and avatar
+  authorType?: MessageAuthorType;
+  poll?: Poll;
   user: {
     uid: string;
     username: string;
@@ -46,9 +119,309 @@ export interface Message {
   };
 }
 
+export interface PollOption {
+  id: string;
+  text: string;
+  votes: number;
+  // Who picked this option; left out for anonymous polls
+  voters?: string[];
+}
+
+export interface Poll {
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: string;
+  // Set once the poll is closed by hand or reaches closesAt; the tallies are final from then on
+  closedAt?: string;
+  closedBy?: string;
+  totalVoters: number;
+}
+
+// A poll as a client asks for it
+export interface PollInput {
+  question: string;
+  options: string[];
+  multipleChoice?: boolean;
+  anonymous?: boolean;
+  closesAt?: string;
+}
+
+export type MessageAuthorType = 'bot' | 'webhook';
+
+// Who a REST send is posted as. Set by the worker from the verified identity, never taken from the client.
+export interface MessageSender {
+  userId: string;
+  username: string;
+  avatar: string;
+  authorType?: MessageAuthorType;
+}
+
+export interface Webhook {
+  id: string;
+  channelId: string;
+  name: string;
+  avatarUrl?: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface Bot {
+  id: string;
+  clanId: string;
+  name: string;
+  avatarUrl?: string;
+  // Where the bot's slash commands are sent
+  commandUrl?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// A slash command, as listed to clients for autocomplete
+export interface SlashCommand {
+  name: string;
+  description: string;
+  usage?: string;
+  // Lowest channel role that may run it; unset means anyone
+  minRole?: ChannelRole;
+  // Set for commands registered by a bot
+  botId?: string;
+}
+
+// Published room events that can be delivered to outgoing webhooks
+export type SubscribableEvent =
+  'new_message' | 'message_edited' | 'message_deleted' | 'reaction_added' | 'reaction_removed' |
+  'message_pinned' | 'message_unpinned' | 'messages_purged' | 'channel_updated' |
+  'member_added' | 'member_removed' | 'member_kicked' | 'member_banned' | 'member_unbanned' |
+  'member_muted' | 'member_unmuted' | 'member_role_updated';
+
+// secret is only returned when the subscription is created
+export interface EventSubscription {
+  id: string;
+  clanId: string;
+  // Unset for clan-wide subscriptions
+  channelId?: string;
+  url: string;
+  events: SubscribableEvent[];
+  active: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface EventDelivery {
+  id: string;
+  subscriptionId: string;
+  channelId: string;
+  eventType: SubscribableEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+  createdAt: string;
+  redeliveryOf?: string;
+}
+
+export interface AttachmentThumbnail {
+  // The box the image was scaled down to fit, e.g. 320 for 320x320
+  size: number;
+  width: number;
+  height: number;
+  url: string;
+}
+
+// What could be read from an upload; absent fields weren't available for its format
+export interface MediaMetadata {
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  blurhash?: string;
+  dominantColor?: string; // #rrggbb
+  thumbnails?: AttachmentThumbnail[];
+}
+
+// An attachment as clients see it, on messages and in upload responses.
+// Files sent before uploads were recorded may lack filename, size and contentType.
+export interface Attachment extends MediaMetadata {
+  id: string;
+  filename?: string;
+  size?: number;
+  contentType?: string;
+  url: string;
+}
+
+// An uploaded file as stored in D1; r2Key stays server-side
+export interface AttachmentRecord extends MediaMetadata {
+  id: string;
+  channelId: string;
+  uploaderId: string;
+  r2Key: string;
+  filename: string;
+  size: number;
+  contentType?: string;
+  createdAt: string;
+  messageId?: string;
+}
+
+// A resumable upload in progress; r2Key and r2UploadId stay server-side
+export interface UploadSession {
+  id: string;
+  channelId: string;
+  uploaderId: string;
+  r2Key: string;
+  r2UploadId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  partSize: number;
+  // completing while the parts are being assembled, so two completions can't race
+  status: 'active' | 'completing';
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ScheduledMessage {
+  id: string;
+  channelId: string;
+  userId: string;
+  // Messages are posted to the channel; reminders go privately to their author
+  kind: 'message' | 'reminder';
+  content: string;
+  sendAt: string;
+  createdAt: string;
+  threadId?: string;
+  replyTo?: string;
+  attachments?: Array<Pick<Attachment, 'id'>>;
+  mentions?: string[];
+  // Reminders: the message being referred to
+  messageId?: string;
+  // Reminders that came due while their author was offline; delivered on their next connection
+  due?: boolean;
+}
+
+export interface PinnedMessage {
+  message: Message;
+  pinnedBy: string;
+  pinnedAt: string;
+}
+
+export interface MessageRevision {
+  content: string;
+  editedBy: string;
+  editedAt: string;
+}
+
+export type AuditAction =
+  | 'message_edited' | 'message_deleted' | 'message_pinned' | 'message_unpinned'
+  | 'member_kicked' | 'member_muted' | 'member_unmuted' | 'member_banned' | 'member_unbanned'
+  | 'member_role_updated' | 'member_removed' | 'slow_mode_updated'
+  | 'webhook_created' | 'webhook_deleted' | 'bot_created' | 'bot_deleted' | 'bot_key_rotated';
+
+export interface AuditEntry {
+  id: string;
+  channelId: string;
+  action: AuditAction;
+  actorId: string;
+  targetUserId?: string;
+  messageId?: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface ReadPosition {
+  userId: string;
+  lastReadMessageId: string;
+  lastReadAt: string;
+}
+
+export interface UnreadSummary {
+  channelId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null;
+  unreadCount: number;
+  mentionCount: number;
+}
+
+export type ChannelRole = 'owner' | 'admin' | 'moderator' | 'member';
+
+// Clan roles use the same ranking as channel roles
+export type ClanRole = ChannelRole;
+
+export type ChannelType = 'text' | 'announcement' | 'private';
+
+export interface Clan {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Channel {
+  id: string;
+  clanId: string;
+  name: string;
+  type: ChannelType;
+  topic?: string;
+  archived: boolean;
+  // Lowest role allowed to pin messages
+  pinRole: ChannelRole;
+  // Retention: messages older than this many days, or beyond the newest N, are purged. Unset keeps everything.
+  retentionDays?: number;
+  retentionMaxMessages?: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ConversationType = 'dm' | 'group';
+
+export interface Conversation {
+  id: string;
+  type: ConversationType;
+  name?: string;
+  participantIds: string[];
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface ConversationSummary extends Conversation {
+  lastMessage: {
+    id: string;
+    userId: string;
+    username: string;
+    content: string;
+    timestamp: string;
+  } | null;
+  unreadCount: number;
+  mentionCount: number;
+}
+
+export interface Invite {
+  code: string;
+  clanId: string;
+  // Landing channel; clan-wide invites leave this unset
+  channelId?: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt?: string;
+  maxUses?: number;
+  uses: number;
+  revoked: boolean;
+}
+
 export interface ChannelMember {
   id: string;
   username: string;
   avatar: string;
   status: 'online' | 'offline' | 'away';
+  role: ChannelRole;
+  mutedUntil?: string;
 }
\ No newline at end of file
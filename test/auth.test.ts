@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { AuthError, authenticate } from '../src/auth';
+
+const SECRET = 'test-secret';
+
+function base64Url(input: string | Uint8Array): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function signToken(claims: Record<string, unknown>, secret = SECRET): Promise<string> {
+  const unsigned = `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}`;
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function requestWith(token: string): Request {
+  return new Request('https://chat.example/api/messages', { headers: { Authorization: `Bearer ${token}` } });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<AuthError> {
+  const error = await promise.then(() => null, e => e);
+  expect(error).toBeInstanceOf(AuthError);
+  return error;
+}
+
+describe('authenticate', () => {
+  it('returns the identity from a valid HS256 token', async () => {
+    const token = await signToken({ sub: 'u1', username: 'ana', exp: Math.floor(Date.now() / 1000) + 60 });
+    const user = await authenticate(requestWith(token), { JWT_SECRET: SECRET });
+    expect(user).toMatchObject({ uid: 'u1', username: 'ana' });
+  });
+
+  it('reads the token from the query string for WebSocket upgrades', async () => {
+    const token = await signToken({ sub: 'u1' });
+    const user = await authenticate(new Request(`https://chat.example/ws?token=${token}`), { JWT_SECRET: SECRET });
+    expect(user.uid).toBe('u1');
+  });
+
+  it('rejects a missing token', async () => {
+    const error = await rejection(authenticate(new Request('https://chat.example/'), { JWT_SECRET: SECRET }));
+    expect(error.status).toBe(401);
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signToken({ sub: 'u1' }, 'other-secret');
+    const error = await rejection(authenticate(requestWith(token), { JWT_SECRET: SECRET }));
+    expect(error.message).toBe('Invalid token signature');
+  });
+
+  it('rejects a signature segment that is not base64url with a 401', async () => {
+    const [header, payload] = (await signToken({ sub: 'u1' })).split('.');
+    const error = await rejection(authenticate(requestWith(`${header}.${payload}.!!!`), { JWT_SECRET: SECRET }));
+    expect(error.status).toBe(401);
+  });
+
+  it('rejects RS256 tokens with a 401 when the configured public key does not import', async () => {
+    const header = base64Url(JSON.stringify({ alg: 'RS256' }));
+    const payload = base64Url(JSON.stringify({ sub: 'u1' }));
+    const error = await rejection(authenticate(requestWith(`${header}.${payload}.c2ln`), { JWT_PUBLIC_KEY: 'not a key' }));
+    expect(error.status).toBe(401);
+  });
+
+  it('rejects algorithms it does not support', async () => {
+    const header = base64Url(JSON.stringify({ alg: 'none' }));
+    const payload = base64Url(JSON.stringify({ sub: 'u1' }));
+    const error = await rejection(authenticate(requestWith(`${header}.${payload}.`), { JWT_SECRET: SECRET }));
+    expect(error.message).toMatch(/Unsupported token algorithm/);
+  });
+
+  it('rejects expired tokens beyond the clock skew allowance', async () => {
+    const token = await signToken({ sub: 'u1', exp: Math.floor(Date.now() / 1000) - 120 });
+    const error = await rejection(authenticate(requestWith(token), { JWT_SECRET: SECRET }));
+    expect(error.message).toBe('Token expired');
+  });
+
+  it('checks the issuer and audience when configured', async () => {
+    const token = await signToken({ sub: 'u1', iss: 'https://issuer.example', aud: ['chat'] });
+    await expect(authenticate(requestWith(token), { JWT_SECRET: SECRET, JWT_ISSUER: 'https://issuer.example', JWT_AUDIENCE: 'chat' }))
+      .resolves.toMatchObject({ uid: 'u1' });
+    expect((await rejection(authenticate(requestWith(token), { JWT_SECRET: SECRET, JWT_AUDIENCE: 'admin' }))).message)
+      .toBe('Invalid token audience');
+  });
+
+  it('rejects tokens without a subject', async () => {
+    const token = await signToken({ username: 'ana' });
+    expect((await rejection(authenticate(requestWith(token), { JWT_SECRET: SECRET }))).message).toBe('Token has no subject');
+  });
+});
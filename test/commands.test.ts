@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CommandError, parseCommand, parseDuration, parsePollCommand, rollDice } from '../src/commands';
+
+describe('parseCommand', () => {
+  it('splits a command into a lowercased name and trimmed args', () => {
+    expect(parseCommand('/Kick @bob  being rude ')).toEqual({ name: 'kick', args: '@bob  being rude' });
+    expect(parseCommand('  /shrug')).toEqual({ name: 'shrug', args: '' });
+    expect(parseCommand('/me waves\nand leaves')).toEqual({ name: 'me', args: 'waves\nand leaves' });
+  });
+
+  it('ignores ordinary messages and the // escape', () => {
+    expect(parseCommand('hello /kick')).toBeNull();
+    expect(parseCommand('//kick @bob')).toBeNull();
+    expect(parseCommand('/')).toBeNull();
+    expect(parseCommand('/usr/bin/env')).toBeNull();
+    expect(parseCommand(undefined)).toBeNull();
+  });
+});
+
+describe('rollDice', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rolls one d6 by default', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(rollDice('')).toBe('🎲 1d6: 4');
+  });
+
+  it('adds up several dice', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.99).mockReturnValueOnce(0.5);
+    expect(rollDice('3D6')).toBe('🎲 3d6: 1 + 6 + 4 = 11');
+  });
+
+  it('rejects dice it cannot roll', () => {
+    for (const spec of ['d1', '0d6', '101d6', '1d1001', 'two dice', '2d6+1']) {
+      expect(() => rollDice(spec)).toThrow(CommandError);
+    }
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads seconds, minutes, hours and days', () => {
+    expect(parseDuration('45')).toBe(45);
+    expect(parseDuration('30s')).toBe(30);
+    expect(parseDuration('10M')).toBe(600);
+    expect(parseDuration(' 2h ')).toBe(7200);
+    expect(parseDuration('7d')).toBe(604800);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseDuration(undefined)).toBeNull();
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('1w')).toBeNull();
+    expect(parseDuration('-5m')).toBeNull();
+    expect(parseDuration('1.5h')).toBeNull();
+    expect(parseDuration('off')).toBeNull();
+  });
+});
+
+describe('parsePollCommand', () => {
+  it('reads a quoted question and options', () => {
+    expect(parsePollCommand('"Where to?" "The pub" "The park, obviously"')).toEqual({
+      question: 'Where to?',
+      options: ['The pub', 'The park, obviously'],
+      multipleChoice: false,
+      anonymous: false,
+    });
+  });
+
+  it('reads a question and options split by |', () => {
+    expect(parsePollCommand('Lunch? | Pizza | Sushi | ')).toMatchObject({ question: 'Lunch?', options: ['Pizza', 'Sushi'] });
+  });
+
+  it('takes --multi and --anonymous in any order before the question', () => {
+    expect(parsePollCommand('--anonymous --multi "Q" "A" "B"')).toMatchObject({ multipleChoice: true, anonymous: true });
+    expect(parsePollCommand('--multi Q | A | B')).toMatchObject({ question: 'Q', multipleChoice: true, anonymous: false });
+  });
+
+  it('needs a question and two options', () => {
+    for (const args of ['', '"Only a question"', '"Q" "A"', 'Q | A', '--multi']) {
+      expect(() => parsePollCommand(args)).toThrow(CommandError);
+    }
+  });
+});
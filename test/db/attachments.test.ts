@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { attachmentIdFromKey, attachmentKey, thumbnailKey } from '../../src/db/attachments';
+
+describe('attachmentKey', () => {
+  it('keeps a plain extension', () => {
+    expect(attachmentKey('c1', 'a1', 'photo.JPG')).toBe('attachments/c1/a1.jpg');
+  });
+
+  it('strips anything but letters and digits from the extension', () => {
+    expect(attachmentKey('c1', 'a1', 'evil.p/../../x')).toBe('attachments/c1/a1.x');
+    expect(attachmentKey('c1', 'a1', 'notes.t x t?')).toBe('attachments/c1/a1.txt');
+    expect(attachmentKey('c1', 'a1', 'weird.%2F')).toBe('attachments/c1/a1.2f');
+  });
+
+  it('leaves the extension off when there is nothing usable', () => {
+    expect(attachmentKey('c1', 'a1', 'README')).toBe('attachments/c1/a1');
+    expect(attachmentKey('c1', 'a1', 'trailing.')).toBe('attachments/c1/a1');
+    expect(attachmentKey('c1', 'a1', 'emoji.🙂')).toBe('attachments/c1/a1');
+  });
+});
+
+describe('attachmentIdFromKey', () => {
+  it('reads the id from originals and thumbnails', () => {
+    expect(attachmentIdFromKey(attachmentKey('c1', 'a1', 'photo.png'))).toBe('a1');
+    expect(attachmentIdFromKey(attachmentKey('c1', 'a1', 'README'))).toBe('a1');
+    expect(attachmentIdFromKey(thumbnailKey('c1', 'a1', 320))).toBe('a1');
+  });
+
+  it('reads the id from keys written with an unsanitised extension', () => {
+    expect(attachmentIdFromKey('attachments/c1/a1.tar/gz')).toBe('a1');
+    expect(attachmentIdFromKey('attachments/c1/a1.x/../y.z')).toBe('a1');
+  });
+
+  it('returns nothing for keys outside the layout', () => {
+    expect(attachmentIdFromKey('attachments/')).toBe('');
+  });
+});
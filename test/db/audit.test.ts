@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseAuditFilters } from '../../src/db/audit';
+import { MAX_PAGE_SIZE } from '../../src/db/messages';
+
+const parse = (query: string) => parseAuditFilters(new URLSearchParams(query));
+
+describe('parseAuditFilters', () => {
+  it('defaults to the newest 50 entries with no filters', () => {
+    expect(parse('')).toEqual({
+      action: undefined,
+      actorId: undefined,
+      targetUserId: undefined,
+      messageId: undefined,
+      after: undefined,
+      before: undefined,
+      limit: 50,
+    });
+  });
+
+  it('maps query params onto filters', () => {
+    expect(parse('action=member_removed&actor=a&target=t&messageId=m&after=2026-01-01&before=2026-02-01&limit=10')).toEqual({
+      action: 'member_removed',
+      actorId: 'a',
+      targetUserId: 't',
+      messageId: 'm',
+      after: '2026-01-01',
+      before: '2026-02-01',
+      limit: 10,
+    });
+  });
+
+  it('rejects unknown actions', () => {
+    expect(parse('action=member_vanished')).toBeNull();
+    expect(parse('action=toString')).toBeNull();
+  });
+
+  it('clamps the limit to a page', () => {
+    expect(parse('limit=0')?.limit).toBe(50);
+    expect(parse('limit=-5')?.limit).toBe(1);
+    expect(parse('limit=5000')?.limit).toBe(MAX_PAGE_SIZE);
+    expect(parse('limit=lots')?.limit).toBe(50);
+  });
+});
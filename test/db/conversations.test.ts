@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { conversationIdFor, isConversationId } from '../../src/db/conversations';
+
+describe('conversationIdFor', () => {
+  it('gives the same participants the same id whatever their order or repeats', async () => {
+    const id = await conversationIdFor(['bob', 'alice']);
+    expect(await conversationIdFor(['alice', 'bob'])).toBe(id);
+    expect(await conversationIdFor(['alice', 'bob', 'alice'])).toBe(id);
+  });
+
+  it('gives different participant sets different ids', async () => {
+    expect(await conversationIdFor(['alice', 'bob'])).not.toBe(await conversationIdFor(['alice', 'bob', 'carol']));
+  });
+
+  it('keeps ids apart that would collide if the names were simply joined', async () => {
+    expect(await conversationIdFor(['a', 'bc'])).not.toBe(await conversationIdFor(['ab', 'c']));
+  });
+
+  it('makes ids recognisable as conversations', async () => {
+    const id = await conversationIdFor(['alice', 'bob']);
+    expect(id).toMatch(/^dm_[0-9a-f]{32}$/);
+    expect(isConversationId(id)).toBe(true);
+    expect(isConversationId('general')).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { generateInviteCode, inviteUnusableReason, rowToInvite } from '../../src/db/invites';
+import { Invite } from '../../src/types';
+
+const invite: Invite = {
+  code: 'abc',
+  clanId: 'c1',
+  createdBy: 'u1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  uses: 0,
+  revoked: false,
+};
+const now = '2026-01-02T00:00:00.000Z';
+
+describe('inviteUnusableReason', () => {
+  it('accepts an open invite', () => {
+    expect(inviteUnusableReason(invite, now)).toBeNull();
+    expect(inviteUnusableReason({ ...invite, expiresAt: '2026-01-03T00:00:00.000Z', maxUses: 2, uses: 1 }, now)).toBeNull();
+  });
+
+  it('explains revoked, expired and used up invites', () => {
+    expect(inviteUnusableReason({ ...invite, revoked: true }, now)).toBe('Invite has been revoked');
+    expect(inviteUnusableReason({ ...invite, expiresAt: now }, now)).toBe('Invite has expired');
+    expect(inviteUnusableReason({ ...invite, maxUses: 1, uses: 1 }, now)).toBe('Invite has reached its maximum uses');
+  });
+});
+
+describe('rowToInvite', () => {
+  it('keeps a zero use limit and leaves missing ones unlimited', () => {
+    expect(rowToInvite({ ...invite, maxUses: 0 }).maxUses).toBe(0);
+    expect(rowToInvite({ ...invite, maxUses: null }).maxUses).toBeUndefined();
+  });
+});
+
+describe('generateInviteCode', () => {
+  it('makes 10-character codes without look-alike characters', () => {
+    const codes = Array.from({ length: 50 }, generateInviteCode);
+    for (const code of codes) {
+      expect(code).toMatch(/^[A-HJ-NP-Za-km-z2-9]{10}$/);
+    }
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildPolls } from '../../src/db/polls';
+
+const options = JSON.stringify([{ id: '1', text: 'Tea' }, { id: '2', text: 'Coffee' }]);
+const pollRow = (overrides: Record<string, unknown> = {}) => ({
+  messageId: 'm1',
+  question: 'Drinks?',
+  options,
+  multipleChoice: 0,
+  anonymous: 0,
+  closesAt: null,
+  closedAt: null,
+  closedBy: null,
+  ...overrides,
+});
+const vote = (userId: string, optionId: string, messageId = 'm1') => ({ messageId, userId, optionId });
+
+describe('buildPolls', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('tallies votes and voters per option', () => {
+    const polls = buildPolls([pollRow({ multipleChoice: 1 })], [vote('a', '1'), vote('b', '1'), vote('a', '2')]);
+    expect(polls.get('m1')).toEqual({
+      question: 'Drinks?',
+      options: [
+        { id: '1', text: 'Tea', votes: 2, voters: ['a', 'b'] },
+        { id: '2', text: 'Coffee', votes: 1, voters: ['a'] },
+      ],
+      multipleChoice: true,
+      anonymous: false,
+      closesAt: undefined,
+      closedAt: undefined,
+      closedBy: undefined,
+      totalVoters: 2,
+    });
+  });
+
+  it('keeps anonymous voters out of the result', () => {
+    const poll = buildPolls([pollRow({ anonymous: 1 })], [vote('a', '1'), vote('b', '2')]).get('m1')!;
+    expect(poll.options).toEqual([{ id: '1', text: 'Tea', votes: 1 }, { id: '2', text: 'Coffee', votes: 1 }]);
+    expect(poll.totalVoters).toBe(2);
+  });
+
+  it('keeps each poll to its own votes and ignores unknown options', () => {
+    const polls = buildPolls(
+      [pollRow(), pollRow({ messageId: 'm2' })],
+      [vote('a', '1'), vote('b', '2', 'm2'), vote('c', '9', 'm2'), vote('d', '1', 'elsewhere')]
+    );
+    expect(polls.get('m1')!.options.map(o => o.votes)).toEqual([1, 0]);
+    expect(polls.get('m2')!.options.map(o => o.votes)).toEqual([0, 1]);
+    expect(polls.get('m2')!.totalVoters).toBe(1);
+    expect(polls.has('elsewhere')).toBe(false);
+  });
+
+  it('counts a poll past its close time as closed before the alarm records it', () => {
+    const polls = buildPolls([
+      pollRow({ closesAt: '2026-01-01T11:00:00.000Z' }),
+      pollRow({ messageId: 'm2', closesAt: '2026-01-01T13:00:00.000Z' }),
+    ], []);
+    expect(polls.get('m1')!.closedAt).toBe('2026-01-01T11:00:00.000Z');
+    expect(polls.get('m2')!.closedAt).toBeUndefined();
+  });
+
+  it('reports who closed a poll early', () => {
+    const poll = buildPolls([pollRow({ closedAt: '2026-01-01T10:00:00.000Z', closedBy: 'a' })], []).get('m1')!;
+    expect(poll.closedAt).toBe('2026-01-01T10:00:00.000Z');
+    expect(poll.closedBy).toBe('a');
+  });
+});
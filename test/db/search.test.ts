@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { highlightSnippet, parseSearchOptions } from '../../src/db/search';
+
+describe('parseSearchOptions', () => {
+  it('quotes every term and matches the last one as a prefix', () => {
+    expect(parseSearchOptions(new URLSearchParams({ q: 'release notes' }))?.query).toBe('"release" "notes"*');
+  });
+
+  it('keeps FTS5 operators and quotes in user input literal', () => {
+    expect(parseSearchOptions(new URLSearchParams({ q: 'a OR "b' }))?.query).toBe('"a" "OR" """b"*');
+  });
+
+  it('returns null without any terms', () => {
+    expect(parseSearchOptions(new URLSearchParams({ q: '   ' }))).toBeNull();
+    expect(parseSearchOptions(new URLSearchParams())).toBeNull();
+  });
+
+  it('reads filters and clamps paging', () => {
+    const options = parseSearchOptions(new URLSearchParams({
+      q: 'x', author: 'u1', hasAttachment: 'true', inThread: 'false', limit: '1000', offset: '-5',
+    }));
+    expect(options).toMatchObject({ authorId: 'u1', hasAttachment: true, inThread: false, limit: 100, offset: 0 });
+  });
+});
+
+describe('highlightSnippet', () => {
+  it('wraps matches in <mark>', () => {
+    expect(highlightSnippet('ship the \uE000release\uE001 today')).toBe('ship the <mark>release</mark> today');
+  });
+
+  it('escapes message text so it cannot inject markup', () => {
+    expect(highlightSnippet('<img src=x onerror="alert(1)"> \uE000match\uE001 & more'))
+      .toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>match</mark> &amp; more');
+  });
+
+  it('escapes markup that spells out a mark tag', () => {
+    expect(highlightSnippet('</mark><script>')).toBe('&lt;/mark&gt;&lt;script&gt;');
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseDeliveryFilters } from '../../src/db/subscriptions';
+import { MAX_PAGE_SIZE } from '../../src/db/messages';
+
+const parse = (query: string) => parseDeliveryFilters(new URLSearchParams(query));
+
+describe('parseDeliveryFilters', () => {
+  it('defaults to the newest 50 deliveries of any status', () => {
+    expect(parse('')).toEqual({ status: undefined, before: undefined, limit: 50 });
+  });
+
+  it('filters by status and pages backwards', () => {
+    expect(parse('status=failed&before=2026-01-01T00:00:00.000Z&limit=20')).toEqual({
+      status: 'failed',
+      before: '2026-01-01T00:00:00.000Z',
+      limit: 20,
+    });
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(parse('status=lost')).toBeNull();
+  });
+
+  it('clamps the limit to a page', () => {
+    expect(parse('limit=-1')?.limit).toBe(1);
+    expect(parse('limit=1000')?.limit).toBe(MAX_PAGE_SIZE);
+  });
+});
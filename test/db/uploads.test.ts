@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { expectedPartSize, totalParts } from '../../src/db/uploads';
+import { UploadSession } from '../../src/types';
+
+const session = (size: number, partSize = 10): UploadSession => ({
+  id: 'u1',
+  channelId: 'c1',
+  uploaderId: 'user1',
+  r2Key: 'attachments/c1/u1.bin',
+  r2UploadId: 'r2',
+  filename: 'file.bin',
+  contentType: 'application/octet-stream',
+  size,
+  partSize,
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  expiresAt: '2026-01-02T00:00:00.000Z',
+});
+
+describe('totalParts', () => {
+  it('rounds up to cover the whole file', () => {
+    expect(totalParts(session(25))).toBe(3);
+    expect(totalParts(session(30))).toBe(3);
+    expect(totalParts(session(31))).toBe(4);
+  });
+
+  it('always has at least one part', () => {
+    expect(totalParts(session(0))).toBe(1);
+    expect(totalParts(session(3))).toBe(1);
+  });
+});
+
+describe('expectedPartSize', () => {
+  it('expects full parts until the last, which holds the remainder', () => {
+    expect([1, 2, 3].map(n => expectedPartSize(session(25), n))).toEqual([10, 10, 5]);
+  });
+
+  it('expects a full last part when the size divides evenly', () => {
+    expect(expectedPartSize(session(30), 3)).toBe(10);
+  });
+
+  it('expects the whole file as a single part', () => {
+    expect(expectedPartSize(session(3), 1)).toBe(3);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_DELIVERY_ATTEMPTS, abandonedDelivery, sendDelivery, signDelivery } from '../src/eventDelivery';
+
+const target = { url: 'https://example.com/hook', secret: 'shh' };
+const delivery = { id: 'd1', eventType: 'new_message', attempts: 0 };
+const payload = '{"type":"new_message"}';
+const now = new Date('2026-01-01T00:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+describe('signDelivery', () => {
+  it('signs the timestamp and body with HMAC-SHA256 in hex', async () => {
+    expect(await signDelivery('shh', '1700000000', payload))
+      .toBe('cd996404bf9e2544ddae28ac6cdf73df484d8bd0b74c6e04381e5aff92177a84');
+  });
+
+  it('changes with the timestamp so old signatures cannot be replayed', async () => {
+    expect(await signDelivery('shh', '1700000000', payload)).not.toBe(await signDelivery('shh', '1700000001', payload));
+  });
+});
+
+describe('sendDelivery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    // No jitter, so retry times are exact
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  const respondWith = (response: Response | Error) => {
+    const fetch = vi.fn(async () => {
+      if (response instanceof Error) throw response;
+      return response;
+    });
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  it('posts the payload with its event, delivery id and signature headers', async () => {
+    const fetch = respondWith(new Response('thanks', { status: 202 }));
+
+    expect(await sendDelivery(target, delivery, payload)).toEqual({
+      status: 'succeeded',
+      attempts: 1,
+      responseStatus: 202,
+      responseBody: 'thanks',
+    });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const timestamp = String(now.getTime() / 1000);
+    expect(url).toBe(target.url);
+    expect(init.body).toBe(payload);
+    expect(init.redirect).toBe('manual');
+    expect(headers['X-Chat-Event']).toBe('new_message');
+    expect(headers['X-Chat-Delivery']).toBe('d1');
+    expect(headers['X-Chat-Timestamp']).toBe(timestamp);
+    expect(headers['X-Chat-Signature']).toBe(`sha256=${await signDelivery('shh', timestamp, payload)}`);
+  });
+
+  it('retries failed responses with exponential backoff', async () => {
+    respondWith(new Response('down', { status: 503 }));
+    expect(await sendDelivery(target, delivery, payload)).toEqual({
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: new Date(now.getTime() + MINUTE).toISOString(),
+      responseStatus: 503,
+      responseBody: 'down',
+      lastError: 'HTTP 503',
+    });
+
+    const fourth = await sendDelivery(target, { ...delivery, attempts: 3 }, payload);
+    expect(fourth.nextAttemptAt).toBe(new Date(now.getTime() + 8 * MINUTE).toISOString());
+  });
+
+  it('adds up to 10% jitter', async () => {
+    respondWith(new Response('', { status: 500 }));
+    const last = await sendDelivery(target, { ...delivery, attempts: MAX_DELIVERY_ATTEMPTS - 2 }, payload);
+    expect(last.nextAttemptAt).toBe(new Date(now.getTime() + 2 ** (MAX_DELIVERY_ATTEMPTS - 2) * MINUTE).toISOString());
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const jittered = await sendDelivery(target, delivery, payload);
+    expect(jittered.nextAttemptAt).toBe(new Date(now.getTime() + MINUTE * 1.05).toISOString());
+  });
+
+  it('retries network errors and redirects', async () => {
+    respondWith(new Error('connection refused'));
+    expect(await sendDelivery(target, delivery, payload)).toMatchObject({ status: 'pending', lastError: 'connection refused' });
+
+    respondWith(new Response(null, { status: 302, headers: { Location: 'https://elsewhere.example' } }));
+    expect(await sendDelivery(target, delivery, payload)).toMatchObject({ status: 'pending', responseStatus: 302 });
+  });
+
+  it('gives up after the last attempt', async () => {
+    respondWith(new Response('', { status: 500 }));
+    const outcome = await sendDelivery(target, { ...delivery, attempts: MAX_DELIVERY_ATTEMPTS - 1 }, payload);
+    expect(outcome.status).toBe('failed');
+    expect(outcome.attempts).toBe(MAX_DELIVERY_ATTEMPTS);
+    expect(outcome.nextAttemptAt).toBeUndefined();
+  });
+});
+
+describe('abandonedDelivery', () => {
+  it('fails without counting another attempt', () => {
+    expect(abandonedDelivery(3)).toEqual({ status: 'failed', attempts: 3, lastError: 'Subscription deleted or disabled' });
+  });
+});
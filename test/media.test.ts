@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MediaEnv, blobSource, extractMediaMetadata } from '../src/media';
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const u16be = (n: number) => [n >> 8 & 0xff, n & 0xff];
+const u16le = (n: number) => [n & 0xff, n >> 8 & 0xff];
+const u32be = (n: number) => [n >>> 24 & 0xff, n >> 16 & 0xff, n >> 8 & 0xff, n & 0xff];
+const u32le = (n: number) => u32be(n).reverse();
+const u24le = (n: number) => [n & 0xff, n >> 8 & 0xff, n >> 16 & 0xff];
+const f64be = (n: number) => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, n);
+  return Array.from(new Uint8Array(view.buffer));
+};
+const box = (type: string, body: number[]) => [...u32be(8 + body.length), ...ascii(type), ...body];
+
+const noImages: MediaEnv = { ATTACHMENTS: {} as R2Bucket };
+const metadataOf = (bytes: number[], env: MediaEnv = noImages) =>
+  extractMediaMetadata(env, blobSource(new Blob([new Uint8Array(bytes)])), 'c1', 'a1');
+
+describe('extractMediaMetadata image headers', () => {
+  it('reads PNG dimensions', async () => {
+    const png = [0x89, ...ascii('PNG\r\n\x1a\n'), ...u32be(13), ...ascii('IHDR'), ...u32be(640), ...u32be(480), 8, 6, 0, 0, 0];
+    expect(await metadataOf(png)).toEqual({ width: 640, height: 480 });
+  });
+
+  it('reads GIF dimensions', async () => {
+    expect(await metadataOf([...ascii('GIF89a'), ...u16le(300), ...u16le(200), 0, 0, 0])).toEqual({ width: 300, height: 200 });
+  });
+
+  it('reads extended WebP dimensions', async () => {
+    const webp = [...ascii('RIFF'), ...u32le(22), ...ascii('WEBP'), ...ascii('VP8X'), ...u32le(10), 0, 0, 0, 0, ...u24le(1919), ...u24le(1079)];
+    expect(await metadataOf(webp)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('reads JPEG dimensions past leading segments', async () => {
+    const jpeg = [
+      0xff, 0xd8,
+      0xff, 0xe0, ...u16be(16), ...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0,
+      0xff, 0xc0, ...u16be(17), 8, ...u16be(768), ...u16be(1024), 3,
+    ];
+    expect(await metadataOf(jpeg)).toEqual({ width: 1024, height: 768 });
+  });
+});
+
+describe('extractMediaMetadata durations', () => {
+  it('reads an MP4 duration from moov/mvhd after other boxes', async () => {
+    const mvhd = box('mvhd', [0, 0, 0, 0, ...u32be(0), ...u32be(0), ...u32be(1000), ...u32be(2500), ...new Array(12).fill(0)]);
+    const mp4 = [...box('ftyp', [...ascii('isom'), ...u32be(0)]), ...box('mdat', new Array(64).fill(0)), ...box('moov', mvhd)];
+    expect(await metadataOf(mp4)).toEqual({ durationSeconds: 2.5 });
+  });
+
+  it('reads a WAV duration from its byte rate', async () => {
+    const fmt = [...ascii('fmt '), ...u32le(16), ...u16le(1), ...u16le(1), ...u32le(8000), ...u32le(16000), ...u16le(2), ...u16le(16)];
+    const wav = [...ascii('RIFF'), ...u32le(0), ...ascii('WAVE'), ...fmt, ...ascii('data'), ...u32le(24000), ...new Array(16).fill(0)];
+    expect(await metadataOf(wav)).toEqual({ durationSeconds: 1.5 });
+  });
+
+  it('reads a WebM duration scaled by its timecode scale', async () => {
+    const info = [0x2a, 0xd7, 0xb1, 0x83, 0x0f, 0x42, 0x40, 0x44, 0x89, 0x88, ...f64be(3250)];
+    const webm = [
+      0x1a, 0x45, 0xdf, 0xa3, 0x80,
+      0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+      0x15, 0x49, 0xa9, 0x66, 0x80 | info.length, ...info,
+    ];
+    expect(await metadataOf(webm)).toEqual({ durationSeconds: 3.25 });
+  });
+
+  it('gives up on containers with too many entries before finding the duration', async () => {
+    const padding = Array.from({ length: 1000 }, () => [...ascii('junk'), ...u32le(0)]).flat();
+    const fmt = [...ascii('fmt '), ...u32le(16), ...u16le(1), ...u16le(1), ...u32le(8000), ...u32le(16000), ...u16le(2), ...u16le(16)];
+    const wav = [...ascii('RIFF'), ...u32le(0), ...ascii('WAVE'), ...fmt, ...padding, ...ascii('data'), ...u32le(24000)];
+    const source = blobSource(new Blob([new Uint8Array(wav)]));
+    const read = vi.spyOn(source, 'read');
+
+    expect(await extractMediaMetadata(noImages, source, 'c1', 'a1')).toEqual({});
+    expect(read.mock.calls.length).toBeLessThan(100);
+
+    const boxes = Array.from({ length: 1000 }, () => box('free', [])).flat();
+    const mvhd = box('mvhd', [0, 0, 0, 0, ...u32be(0), ...u32be(0), ...u32be(1000), ...u32be(2500), ...new Array(12).fill(0)]);
+    const mp4 = [...box('ftyp', [...ascii('isom'), ...u32be(0)]), ...boxes, ...box('moov', mvhd)];
+    expect(await metadataOf(mp4)).toEqual({});
+  });
+
+  it('returns nothing for files it cannot read', async () => {
+    expect(await metadataOf(ascii('just some text, not media at all'))).toEqual({});
+    expect(await metadataOf([])).toEqual({});
+  });
+});
+
+describe('extractMediaMetadata with Cloudflare Images', () => {
+  // Answers every transform with a solid red placeholder and records the thumbnails stored
+  const imagesEnv = (stored: string[]): MediaEnv => {
+    const pixels = new Uint8Array(32 * 32 * 3).map((_, i) => i % 3 === 0 ? 255 : 0);
+    const output = { response: () => new Response(pixels), image: () => new Blob(['webp']).stream(), contentType: () => 'image/webp' };
+    const transformer = { transform: () => transformer, output: async () => output };
+    return {
+      ATTACHMENTS: { put: async (key: string) => { stored.push(key); } } as unknown as R2Bucket,
+      IMAGES: { input: () => transformer } as unknown as ImagesBinding,
+    };
+  };
+  const png = (width: number, height: number) =>
+    [0x89, ...ascii('PNG\r\n\x1a\n'), ...u32be(13), ...ascii('IHDR'), ...u32be(width), ...u32be(height), 8, 2, 0, 0, 0];
+
+  it('adds a blurhash whose average color is the dominant color', async () => {
+    const metadata = await metadataOf(png(100, 100), imagesEnv([]));
+    expect(metadata.dominantColor).toBe('#ff0000');
+    // 4x3 components: size flag, max AC, DC and eleven AC values
+    expect(metadata.blurhash).toHaveLength(28);
+    expect(metadata.blurhash?.[0]).toBe('L');
+  });
+
+  it('makes only the thumbnails smaller than the original', async () => {
+    const stored: string[] = [];
+    const metadata = await metadataOf(png(1000, 500), imagesEnv(stored));
+    expect(metadata.thumbnails).toEqual([
+      { size: 320, width: 320, height: 160, url: '/api/attachments/a1/thumbnails/320' },
+      { size: 960, width: 960, height: 480, url: '/api/attachments/a1/thumbnails/960' },
+    ]);
+    expect(stored).toEqual(['attachments/c1/a1.thumb-320.webp', 'attachments/c1/a1.thumb-960.webp']);
+
+    expect((await metadataOf(png(100, 100), imagesEnv([]))).thumbnails).toEqual([]);
+  });
+});
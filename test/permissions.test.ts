@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { hasRole, isChannelRole, outranks } from '../src/permissions';
+
+describe('hasRole', () => {
+  it('ranks owner above admin above moderator above member', () => {
+    expect(hasRole('owner', 'admin')).toBe(true);
+    expect(hasRole('admin', 'moderator')).toBe(true);
+    expect(hasRole('moderator', 'moderator')).toBe(true);
+    expect(hasRole('moderator', 'admin')).toBe(false);
+    expect(hasRole('member', 'moderator')).toBe(false);
+  });
+
+  it('treats an unknown role as a member', () => {
+    expect(hasRole(undefined, 'member')).toBe(true);
+    expect(hasRole(undefined, 'moderator')).toBe(false);
+  });
+});
+
+describe('outranks', () => {
+  it('only lets a role act on strictly lower roles', () => {
+    expect(outranks('moderator', 'member')).toBe(true);
+    expect(outranks('moderator', 'moderator')).toBe(false);
+    expect(outranks('admin', 'owner')).toBe(false);
+    expect(outranks('owner', undefined)).toBe(true);
+  });
+});
+
+describe('isChannelRole', () => {
+  it('accepts the four channel roles and nothing else', () => {
+    expect(['member', 'moderator', 'admin', 'owner'].every(isChannelRole)).toBe(true);
+    expect(isChannelRole('superuser')).toBe(false);
+    expect(isChannelRole('toString')).toBe(false);
+    expect(isChannelRole(1)).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../src/rateLimiter';
+
+const config = { capacity: 3, refillPerSecond: 1 };
+
+describe('RateLimiter', () => {
+  it('allows a burst up to the bucket capacity', () => {
+    const limiter = new RateLimiter();
+    expect([0, 1, 2].map(() => limiter.consume('u1:send_message', config, 1000))).toEqual([0, 0, 0]);
+    expect(limiter.consume('u1:send_message', config, 1000)).toBe(1000);
+  });
+
+  it('refills over time and reports how long until the next token', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 3; i++) limiter.consume('u1:send_message', config, 0);
+    expect(limiter.consume('u1:send_message', config, 250)).toBe(750);
+    expect(limiter.consume('u1:send_message', config, 1000)).toBe(0);
+  });
+
+  it('never refills beyond capacity', () => {
+    const limiter = new RateLimiter();
+    limiter.consume('u1:send_message', config, 0);
+    const results = [0, 1, 2, 3].map(() => limiter.consume('u1:send_message', config, 60_000));
+    expect(results.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(results[3]).toBeGreaterThan(0);
+  });
+
+  it('keeps separate buckets per key', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 3; i++) limiter.consume('u1:send_message', config, 0);
+    expect(limiter.consume('u2:send_message', config, 0)).toBe(0);
+    expect(limiter.consume('u1:typing_start', config, 0)).toBe(0);
+  });
+
+  it('prunes buckets that have refilled, so an emptied bucket survives until then', () => {
+    const limiter = new RateLimiter();
+    for (let i = 0; i < 3; i++) limiter.consume('u1:send_message', config, 0);
+    limiter.prune({ send_message: config }, 1000);
+    expect(limiter.consume('u1:send_message', config, 1000)).toBe(0);
+    expect(limiter.consume('u1:send_message', config, 1000)).toBeGreaterThan(0);
+
+    limiter.prune({ send_message: config }, 10_000);
+    expect([0, 1, 2].map(() => limiter.consume('u1:send_message', config, 10_000))).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeContentType } from '../../src/routes/uploads';
+
+describe('normalizeContentType', () => {
+  it('drops parameters, whitespace and case', () => {
+    expect(normalizeContentType('Text/Plain; charset=UTF-8')).toBe('text/plain');
+    expect(normalizeContentType('  image/PNG ')).toBe('image/png');
+  });
+
+  it('treats a missing type as binary', () => {
+    expect(normalizeContentType(undefined)).toBe('application/octet-stream');
+    expect(normalizeContentType('')).toBe('application/octet-stream');
+    expect(normalizeContentType('; charset=utf-8')).toBe('application/octet-stream');
+  });
+});